@@ -2,49 +2,428 @@ import dotenv from 'dotenv';
 import express from 'express';
 import cors from 'cors';
 import axios from 'axios';
-import fs from 'fs';
 import path from 'path';
+import { callSlack, getSlack, sendDirectMessage, scheduleDirectMessage } from './server/slackApi.js';
+import { createDmQueue } from './server/dmQueue.js';
+import { createTemplateStore, TemplateValidationError } from './server/templateStore.js';
+import { createMessageHistory } from './server/messageHistory.js';
+import { createChannelRegistry } from './server/channelRegistry.js';
+import { createAuth, requireRole } from './server/auth.js';
+import { createSlackSignIn, SlackSignInError } from './server/slackSignIn.js';
+import { createProfileCache } from './server/profileCache.js';
+import { createMappingSync } from './server/mappingSync.js';
+import { createSyncHistory } from './server/syncHistory.js';
+import { createSyncScheduler } from './server/syncScheduler.js';
+import { createSlackEvents, verifySlackSignature, SlackSignatureError } from './server/slackEvents.js';
+import { createWelcomeRules } from './server/welcomeRules.js';
+import { createLiveUpdates } from './server/liveUpdates.js';
+import { openDatabase } from './server/database.js';
+import { createMappingStore, CorruptMappingsError } from './server/mappingStores/index.js';
+import { createMappingBackups } from './server/mappingBackups.js';
+import { mappingVersion, withVersion, parseIfMatch, versionMatches } from './server/mappingVersion.js';
+import { validateBody, validateQuery } from './server/validation.js';
+import {
+  loginSchema,
+  saveMappingsSchema,
+  mappingFieldsSchema,
+  mappingPatchSchema,
+  templateCreateSchema,
+  templateUpdateSchema,
+  templateDuplicateSchema,
+  channelSchema,
+  syncRequestSchema,
+  conversationsMembersSchema,
+  sendDmSchema,
+  scheduleDmSchema,
+  cancelScheduledMessageSchema,
+  chatUpdateSchema,
+  chatDeleteSchema,
+  dmJobSchema,
+  welcomeRuleSchema,
+  historyQuerySchema,
+  syncRunsQuerySchema,
+  usersListQuerySchema,
+  usersInfoQuerySchema
+} from './src/shared/schemas.js';
+import { importJsonData } from './server/jsonImport.js';
 
 try {
   dotenv.config();
   const app = express();
   const PORT = process.env.PORT || 3001;
-  const MAPPINGS_FILE = path.join(process.cwd(), 'user_mappings.json');
-
-  // Ensure the mappings file exists and is properly initialized
-  const initializeMappingsFile = () => {
-    try {
-      if (!fs.existsSync(MAPPINGS_FILE)) {
-        console.log(`Creating new mappings file at: ${MAPPINGS_FILE}`);
-        fs.writeFileSync(MAPPINGS_FILE, JSON.stringify([], null, 2));
-        console.log('Successfully created mappings file');
-      } else {
-        // Verify the file content is valid JSON
-        try {
-          const content = fs.readFileSync(MAPPINGS_FILE, 'utf8');
-          JSON.parse(content);
-          console.log('Mappings file exists and contains valid JSON');
-        } catch (e) {
-          console.log('Invalid JSON in mappings file, resetting...');
-          fs.writeFileSync(MAPPINGS_FILE, JSON.stringify([], null, 2));
-          console.log('Successfully reset mappings file');
+  const DATABASE_FILE = process.env.DATABASE_FILE || path.join(process.cwd(), 'slack_user_mapper.db');
+  // sqlite (default), json or postgres; see server/mappingStores
+  const MAPPING_STORE = process.env.MAPPING_STORE || 'sqlite';
+  // The mapping store with MAPPING_STORE=json; otherwise imported once, like
+  // the other pre-SQLite files below
+  const MAPPINGS_FILE = process.env.MAPPINGS_FILE || path.join(process.cwd(), 'user_mappings.json');
+  // A snapshot of the mappings is saved here before every change
+  const MAPPING_BACKUPS_DIR = process.env.MAPPING_BACKUPS_DIR || path.join(process.cwd(), 'mapping_backups');
+  const MAPPING_BACKUPS_KEEP = parseInt(process.env.MAPPING_BACKUPS_KEEP, 10) || 50;
+  // Start from the newest backup when the mappings file is corrupt, rather
+  // than refusing to start
+  const RECOVER_CORRUPT_MAPPINGS = process.env.RECOVER_CORRUPT_MAPPINGS === 'true';
+  // The bot token only ever lives here; clients can't supply their own
+  const getBotToken = () => process.env.SLACK_BOT_TOKEN;
+  const DM_JOBS_FILE = path.join(process.cwd(), 'dm_jobs.json');
+  const TEMPLATES_FILE = path.join(process.cwd(), 'message_templates.json');
+  const HISTORY_FILE = path.join(process.cwd(), 'message_history.json');
+  const CHANNELS_FILE = path.join(process.cwd(), 'channels.json');
+  const USERS_FILE = path.join(process.cwd(), 'users.json');
+  const PROFILES_FILE = path.join(process.cwd(), 'user_profiles.json');
+  const SYNC_RUNS_FILE = path.join(process.cwd(), 'sync_runs.json');
+  const WELCOME_RULES_FILE = path.join(process.cwd(), 'welcome_rules.json');
+  // Where the browser is sent back to after signing in with Slack
+  const APP_URL = process.env.APP_URL || 'http://localhost:8080';
+
+  // Channels, templates and message history (and by default mappings) live
+  // in SQLite; the JSON files they used to be kept in are imported once, on
+  // first start
+  const db = openDatabase({ file: DATABASE_FILE });
+
+  // Pushes mapping, history and sync changes to every open UI
+  const liveUpdates = createLiveUpdates();
+
+  const mappingBackups = createMappingBackups({ dir: MAPPING_BACKUPS_DIR, keep: MAPPING_BACKUPS_KEEP });
+
+  const mappingStore = createMappingStore({
+    type: MAPPING_STORE,
+    db,
+    file: MAPPINGS_FILE,
+    recover: RECOVER_CORRUPT_MAPPINGS
+      ? () => {
+        const backup = mappingBackups.latest();
+        console.error(backup
+          ? `Recovering ${backup.mappings.length} mappings from backup ${backup.id}`
+          : 'No mapping backup to recover from; starting with no mappings');
+        return backup?.mappings || [];
+      }
+      : undefined,
+    connectionString: process.env.DATABASE_URL
+  });
+  try {
+    await mappingStore.initialize();
+  } catch (error) {
+    if (error instanceof CorruptMappingsError) {
+      error.message += '. Fix the file, or set RECOVER_CORRUPT_MAPPINGS=true to start from the newest backup.';
+    }
+    throw error;
+  }
+  console.log(`Storing user mappings in ${MAPPING_STORE}`);
+
+  const readMappings = () => mappingStore.list();
+  // Applies `change` (current mappings -> new list, or null for no change)
+  // atomically, backing up the current list first, and tells open UIs when
+  // something changed. `reason` is recorded with the backup.
+  const updateMappings = async (change, reason = 'mappings change') => {
+    const updated = await mappingStore.update(currentMappings => {
+      const next = change(currentMappings);
+      if (next) {
+        mappingBackups.save(currentMappings, reason);
+      }
+      return next;
+    });
+    if (updated) {
+      liveUpdates.publish('mappings', { count: updated.length });
+    }
+    return updated;
+  };
+
+  // Merge one channel's current members into the stored mappings and return
+  // the result. Without a channelId, `newMappings` is the full member list (the
+  // old single-channel format). Nobody is deleted: users missing from the list
+  // are marked as having left, or as deactivated if their ID is in
+  // `deactivatedUserIds`, with the date it was first noticed. Users in
+  // `unchangedUserIds` are still members whose profile couldn't be fetched;
+  // their mappings are kept as they are.
+  const saveChannelMappings = (channelId, newMappings, { deactivatedUserIds = [], unchangedUserIds = [] } = {}) => updateMappings(currentMappings => {
+    console.log(`Current mappings count: ${currentMappings.length}`);
+    const newUserIds = new Set(newMappings.map(m => m.userId));
+    const deactivated = new Set(deactivatedUserIds);
+    const unchanged = new Set(unchangedUserIds);
+    const today = new Date().toISOString().split('T')[0];
+
+    // Merge existing mappings with new ones, preserving addedOn dates
+    const updatedMappings = newMappings.map(newMapping => {
+      const existing = currentMappings.find(m => m.userId === newMapping.userId);
+      // Departed users keep their last channels for reference; those don't
+      // carry over if they come back
+      const previousChannels = existing && (!existing.status || existing.status === 'active')
+        ? existing.channels || []
+        : [];
+      const channels = new Set([...previousChannels, ...(newMapping.channels || [])]);
+      if (channelId) {
+        channels.add(channelId);
+      }
+      // Someone who left and came back is active again
+      return {
+        ...newMapping,
+        status: 'active',
+        leftOn: undefined,
+        addedOn: existing?.addedOn || newMapping.addedOn,
+        // Custom fields are maintained here, not by the Slack refresh
+        customFields: newMapping.customFields || existing?.customFields,
+        channels: [...channels]
+      };
+    });
+
+    // Users from other channels are untouched. Active users who are no longer
+    // in this channel lose it from their list; if it was their last tracked
+    // channel (or their account is gone) they keep it and are marked departed
+    // instead. Records that predate channel tracking count as members of this
+    // channel.
+    const otherMappings = currentMappings
+      .filter(m => !newUserIds.has(m.userId))
+      .map(m => {
+        if (unchanged.has(m.userId)) {
+          return m;
+        }
+        const channels = m.channels || (channelId ? [channelId] : []);
+        const wasMember = !channelId || channels.includes(channelId);
+        if (!wasMember || (m.status && m.status !== 'active')) {
+          return m;
         }
+
+        const remaining = channels.filter(c => c !== channelId);
+        if (remaining.length > 0 && !deactivated.has(m.userId)) {
+          return { ...m, channels: remaining };
+        }
+        return {
+          ...m,
+          channels,
+          status: deactivated.has(m.userId) ? 'deactivated' : 'left',
+          leftOn: today
+        };
+      });
+    const mergedMappings = [...otherMappings, ...updatedMappings];
+
+    console.log(`Saving ${mergedMappings.length} mappings`);
+    return mergedMappings;
+  }, channelId ? `save of ${channelId}` : 'save of all mappings');
+
+  const messageHistory = createMessageHistory({
+    db,
+    onChange: () => liveUpdates.publish('history')
+  });
+
+  const imported = importJsonData({
+    db,
+    files: {
+      mappings: MAPPING_STORE === 'sqlite' ? MAPPINGS_FILE : undefined,
+      channels: CHANNELS_FILE,
+      templates: TEMPLATES_FILE,
+      history: HISTORY_FILE
+    },
+    messageHistory
+  });
+  if (imported) {
+    console.log(`Imported ${imported.mappings} mappings, ${imported.channels} channels, ` +
+      `${imported.templates} templates and ${imported.history} history entries from JSON into ${DATABASE_FILE}`);
+  }
+
+  // Bulk DM queue, also used for automatic welcomes; resumed below, once
+  // everything its results are reported to exists
+  const dmQueue = createDmQueue({
+    jobsFile: DM_JOBS_FILE,
+    sendDm: (token, userId, messageText, { postAt }) => postAt
+      ? scheduleDirectMessage(token, userId, messageText, postAt)
+      : sendDirectMessage(token, userId, messageText),
+    getToken: getBotToken,
+    onResult: (job, recipient) => {
+      messageHistory.record({
+        userId: recipient.userId,
+        text: recipient.messageText ?? job.messageText,
+        sourceText: job.messageText,
+        template: job.template,
+        status: job.postAt && recipient.status === 'sent' ? 'scheduled' : recipient.status,
+        messageTs: recipient.messageTs,
+        channel: recipient.channel,
+        error: recipient.error,
+        jobId: job.id,
+        postAt: job.postAt,
+        scheduledMessageId: recipient.scheduledMessageId,
+        welcomeChannelId: job.welcomeChannelId
+      });
+      if (job.welcomeChannelId) {
+        welcomeRules.recordResult(job, recipient);
       }
+    },
+    intervalMs: Number(process.env.DM_QUEUE_INTERVAL_MS) || undefined
+  });
+
+  const templateStore = createTemplateStore({ db });
+
+  // Send or schedule one DM and record it in the history, for the
+  // send-dm/schedule-dm routes
+  const sendDm = async ({ userId, messageText, sourceText, template }) => {
+    const entry = { userId, text: messageText, sourceText, template };
+    let result;
+    try {
+      result = await sendDirectMessage(getBotToken(), userId, messageText);
     } catch (error) {
-      console.error('Error initializing mappings file:', error);
-      process.exit(1);
+      messageHistory.record({ ...entry, status: 'failed', error: error.message });
+      throw error;
     }
+
+    messageHistory.record({ ...entry, status: 'sent', ...result });
+    return result;
   };
 
-  // Initialize the file on server start
-  initializeMappingsFile();
+  const scheduleDm = async ({ userId, messageText, sourceText, template, postAt }) => {
+    const entry = { userId, text: messageText, sourceText, template };
+    let result;
+    try {
+      result = await scheduleDirectMessage(getBotToken(), userId, messageText, postAt);
+    } catch (error) {
+      messageHistory.record({ ...entry, status: 'failed', error: error.message, postAt });
+      throw error;
+    }
+
+    messageHistory.record({ ...entry, status: 'scheduled', ...result });
+    return result;
+  };
+
+  const welcomeRules = createWelcomeRules({
+    rulesFile: WELCOME_RULES_FILE,
+    getTemplate: templateStore.get,
+    enqueueDms: dmQueue.enqueue,
+    isQueued: (channelId, userId) => dmQueue.isPending(userId, { welcomeChannelId: channelId }),
+    hasBeenWelcomed: messageHistory.hasWelcome
+  });
+  welcomeRules.initialize();
+  // Picks up any batch, or welcome, that was interrupted by a restart
+  dmQueue.resume();
+
+  const channelRegistry = createChannelRegistry({ db });
+  channelRegistry.initialize(process.env.SLACK_CHANNEL_ID || process.env.VITE_SLACK_CHANNEL_ID);
+
+  const profileCache = createProfileCache({
+    cacheFile: PROFILES_FILE,
+    fetchProfile: async (userId) => (await getSlack('users.info', { user: userId }, getBotToken())).user,
+    ttlMs: Number(process.env.PROFILE_CACHE_TTL_MS) || undefined
+  });
+
+  // Pages through a Slack list method, calling `onPage` with each page's items
+  const paginateSlack = async (method, params, key, onPage) => {
+    let cursor;
+    do {
+      const data = await getSlack(method, { ...params, ...(cursor ? { cursor } : {}) }, getBotToken());
+      onPage(data[key]);
+      cursor = data.response_metadata?.next_cursor;
+    } while (cursor);
+  };
+
+  const syncHistory = createSyncHistory({ runsFile: SYNC_RUNS_FILE });
+  syncHistory.initialize();
+
+  const mappingSync = createMappingSync({
+    listMembers: async (channelId) => {
+      const members = [];
+      await paginateSlack('conversations.members', { channel: channelId, limit: 200 }, 'members',
+        page => members.push(...page));
+      return members;
+    },
+    lookUpProfile: async (userId) => (await profileCache.get(userId)).user,
+    lookUpFreshProfile: async (userId) => (await profileCache.get(userId, { fresh: true })).user,
+    listWorkspaceUsers: (onPage) => paginateSlack('users.list', { limit: 200 }, 'members', page => {
+      profileCache.prime(page);
+      onPage(page);
+    }),
+    readMappings,
+    saveChannelMappings,
+    onFinished: syncHistory.record,
+    onMembersJoined: welcomeRules.welcome
+  });
+  mappingSync.subscribe(run => liveUpdates.publish('sync', run));
+
+  // Background sync of every registered channel, e.g. SYNC_SCHEDULE="0 7 * * 1-5"
+  if (process.env.SYNC_SCHEDULE) {
+    const scheduler = createSyncScheduler({
+      schedule: process.env.SYNC_SCHEDULE,
+      onTick: () => {
+        const channels = channelRegistry.list();
+        if (!getBotToken() || channels.length === 0) {
+          console.log('Skipping scheduled sync: no bot token or no registered channels');
+          return;
+        }
+        if (!mappingSync.start(channels, { trigger: 'scheduled' })) {
+          console.log('Skipping scheduled sync: a sync is already running');
+        }
+      }
+    });
+    scheduler.start();
+    console.log(`Background sync scheduled: ${process.env.SYNC_SCHEDULE}`);
+  }
+
+  const slackEvents = createSlackEvents({
+    isTrackedChannel: (channelId) => channelRegistry.list().some(channel => channel.id === channelId),
+    lookUpProfile: async (userId) => (await profileCache.get(userId)).user,
+    primeProfile: (user) => profileCache.prime([user]),
+    updateMappings,
+    onMemberJoined: (channelId, mapping) => welcomeRules.welcome(channelId, [mapping])
+  });
+
+  const slackSignIn = createSlackSignIn({
+    clientId: process.env.SLACK_CLIENT_ID,
+    clientSecret: process.env.SLACK_CLIENT_SECRET,
+    redirectUri: process.env.SLACK_SIGNIN_REDIRECT_URI || `http://localhost:${PORT}/api/auth/slack/callback`,
+    allowedUsers: (process.env.SLACK_SIGNIN_ALLOWED_USERS || '').split(',').map(entry => entry.trim()).filter(Boolean),
+    teamId: process.env.SLACK_TEAM_ID,
+    baseUrl: process.env.SLACK_OAUTH_BASE_URL
+  });
+
+  const auth = createAuth({
+    usersFile: USERS_FILE,
+    resolveExternalUser: (user) => {
+      const role = user.provider === 'slack' && slackSignIn.getRole(user.username);
+      return role ? { ...user, role } : null;
+    }
+  });
+  auth.initialize();
 
   // Middleware
   app.use(cors({
     origin: ['http://localhost:8080', 'http://127.0.0.1:8080'],
-    methods: ['GET', 'POST', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization']
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'If-Match'],
+    exposedHeaders: ['ETag'],
+    // The UI authenticates with a session cookie
+    credentials: true
   }));
+
+  // Slack Events API (Request URL: <server>/api/slack/events). Registered
+  // ahead of the JSON parser because the signature covers the raw body, and
+  // ahead of the session check because Slack authenticates by signing.
+  app.post('/api/slack/events', express.raw({ type: '*/*' }), (req, res) => {
+    const signingSecret = process.env.SLACK_SIGNING_SECRET;
+    if (!signingSecret) {
+      return res.status(404).json({ error: 'Slack events are not configured' });
+    }
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+    let payload;
+    try {
+      verifySlackSignature({
+        signingSecret,
+        timestamp: req.get('X-Slack-Request-Timestamp'),
+        signature: req.get('X-Slack-Signature'),
+        rawBody
+      });
+      payload = JSON.parse(rawBody);
+    } catch (error) {
+      if (error instanceof SlackSignatureError) {
+        console.log(`Rejected Slack event: ${error.message}`);
+        return res.status(401).json({ error: error.message });
+      }
+      return res.status(400).json({ error: 'Invalid JSON body' });
+    }
+
+    // Slack expects an answer within 3 seconds, so apply the event afterwards
+    const { body, process: processEvent } = slackEvents.handle(payload);
+    res.json(body);
+    processEvent?.();
+  });
+
   app.use(express.json());
 
   // Health check endpoint
@@ -52,18 +431,75 @@ try {
     res.json({ status: 'ok' });
   });
 
-  // Get all mappings
-  app.get('/api/mappings', (req, res) => {
+  app.post('/api/auth/login', validateBody(loginSchema), (req, res) => {
+    const { username, password } = req.body;
+    const result = auth.login(username, password);
+
+    if (!result) {
+      console.log(`Failed login attempt for ${username}`);
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+
+    auth.setSessionCookie(res, result.sessionId);
+    console.log(`User ${result.user.username} signed in`);
+    res.json({ user: result.user });
+  });
+
+  // Which sign-in options the login page should offer
+  app.get('/api/auth/methods', (req, res) => {
+    res.json({ slack: slackSignIn.isConfigured(), password: auth.hasLocalUsers() });
+  });
+
+  app.get('/api/auth/slack', (req, res) => {
+    if (!slackSignIn.isConfigured()) {
+      return res.status(404).json({ error: 'Sign in with Slack is not configured' });
+    }
+    res.redirect(slackSignIn.startSignIn(res));
+  });
+
+  app.get('/api/auth/slack/callback', async (req, res) => {
+    const { error } = req.query;
+
     try {
-      if (!fs.existsSync(MAPPINGS_FILE)) {
-        console.log('Mappings file not found, initializing...');
-        initializeMappingsFile();
+      if (error) {
+        throw new SlackSignInError(`Slack sign-in was not completed: ${error}`);
       }
-      
-      const data = fs.readFileSync(MAPPINGS_FILE, 'utf8');
-      const mappings = JSON.parse(data);
+
+      const user = await slackSignIn.completeSignIn(req, res);
+      auth.setSessionCookie(res, auth.startSession(user));
+      console.log(`Slack user ${user.username} (${user.name}) signed in`);
+      res.redirect(APP_URL);
+    } catch (err) {
+      console.error('Error completing Slack sign-in:', err.message);
+      const message = err instanceof SlackSignInError ? err.message : 'Failed to sign in with Slack';
+      res.redirect(`${APP_URL}/login?error=${encodeURIComponent(message)}`);
+    }
+  });
+
+  app.post('/api/auth/logout', (req, res) => {
+    auth.logout(req);
+    auth.clearSessionCookie(res);
+    res.json({ success: true });
+  });
+
+  app.get('/api/auth/me', (req, res) => {
+    const user = auth.getUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    res.json({ user });
+  });
+
+  // Everything registered below requires a signed-in user. Reads are open to
+  // every role; changes are guarded per route with requireRole.
+  app.use('/api', auth.requireAuth);
+
+  // Get all mappings
+  app.get('/api/mappings', async (req, res) => {
+    try {
+      const mappings = await readMappings();
       console.log(`Retrieved ${mappings.length} mappings`);
-      res.json(mappings);
+      res.json(mappings.map(withVersion));
     } catch (error) {
       console.error('Error reading mappings:', error);
       res.status(500).json({ 
@@ -74,33 +510,15 @@ try {
   });
 
   // Save mappings
-  app.post('/api/mappings', (req, res) => {
+  app.post('/api/mappings', requireRole('mapper'), validateBody(saveMappingsSchema), async (req, res) => {
     try {
-      if (!fs.existsSync(MAPPINGS_FILE)) {
-        console.log('Mappings file not found, initializing...');
-        initializeMappingsFile();
-      }
-
       console.log('Received mappings to save:', JSON.stringify(req.body, null, 2));
       
-      // Read current mappings
-      const currentData = fs.readFileSync(MAPPINGS_FILE, 'utf8');
-      const currentMappings = JSON.parse(currentData);
-      console.log(`Current mappings count: ${currentMappings.length}`);
-      
-      // Merge existing mappings with new ones, preserving addedOn dates
-      const newMappings = req.body;
-      const mergedMappings = newMappings.map(newMapping => {
-        const existing = currentMappings.find(m => m.userId === newMapping.userId);
-        return {
-          ...newMapping,
-          addedOn: existing?.addedOn || newMapping.addedOn
-        };
-      });
+      // Body is { channelId, mappings } for one channel's members, or a bare
+      // array that replaces everything (the old single-channel format)
+      const { channelId, mappings: newMappings } = req.body;
+      const mergedMappings = await saveChannelMappings(channelId, newMappings);
 
-      // Write back to file
-      fs.writeFileSync(MAPPINGS_FILE, JSON.stringify(mergedMappings, null, 2));
-      console.log(`Successfully saved ${mergedMappings.length} mappings`);
       res.json({ 
         success: true,
         count: mergedMappings.length
@@ -115,17 +533,476 @@ try {
     }
   });
 
+  // Snapshots taken before each mapping change, newest first
+  app.get('/api/mappings/backups', requireRole('admin'), (req, res) => {
+    try {
+      res.json(mappingBackups.list());
+    } catch (error) {
+      console.error('Error listing mapping backups:', error);
+      res.status(500).json({ 
+        error: 'Failed to list mapping backups',
+        details: error.message 
+      });
+    }
+  });
+
+  // Put a snapshot back; the mappings it replaces are backed up first, so a
+  // restore can itself be undone
+  app.post('/api/mappings/backups/:id/restore', requireRole('admin'), async (req, res) => {
+    try {
+      const snapshot = mappingBackups.read(req.params.id);
+      if (!snapshot) {
+        return res.status(404).json({ error: 'Backup not found' });
+      }
+      await updateMappings(() => snapshot, `restore of ${req.params.id} by ${req.user.username}`);
+      console.log(`${req.user.username} restored mappings from ${req.params.id}`);
+      res.json({ success: true, count: snapshot.length });
+    } catch (error) {
+      console.error('Error restoring mapping backup:', error);
+      res.status(500).json({ 
+        error: 'Failed to restore mapping backup',
+        details: error.message 
+      });
+    }
+  });
+
+  // Applies `change` to the mapping for `userId` if its version still matches
+  // the request's If-Match header, and sends the outcome: the new mapping with
+  // its ETag, 404 if `change` needs an existing mapping that isn't there, or
+  // 412 if someone changed it first. `change` gets the current mapping (or
+  // undefined) and returns the new one, or null to delete it.
+  const changeMapping = async (req, res, change, { create = false } = {}) => {
+    const { userId } = req.params;
+    const expected = parseIfMatch(req.get('If-Match'));
+    let outcome;
+    await updateMappings(mappings => {
+      const current = mappings.find(m => m.userId === userId);
+      if (!current && !create) {
+        outcome = { status: 404 };
+        return null;
+      }
+      if (!versionMatches(expected, current)) {
+        outcome = { status: 412, current };
+        return null;
+      }
+      const next = change(current);
+      outcome = { status: next ? (current ? 200 : 201) : 204, mapping: next };
+      if (!next) {
+        return mappings.filter(m => m.userId !== userId);
+      }
+      return current
+        ? mappings.map(m => m.userId === userId ? next : m)
+        : [...mappings, next];
+    }, `${req.method} of ${userId} by ${req.user.username}`);
+
+    if (outcome.status === 404) {
+      return res.status(404).json({ error: 'Mapping not found' });
+    }
+    if (outcome.status === 412) {
+      if (outcome.current) {
+        res.set('ETag', `"${mappingVersion(outcome.current)}"`);
+      }
+      return res.status(412).json({
+        error: 'Mapping was changed by someone else',
+        current: outcome.current ? withVersion(outcome.current) : null
+      });
+    }
+    if (outcome.status === 204) {
+      return res.status(204).end();
+    }
+    res.set('ETag', `"${mappingVersion(outcome.mapping)}"`);
+    res.status(outcome.status).json(withVersion(outcome.mapping));
+  };
+
+  const sendMappingError = (res, error, action) => {
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({ 
+      error: `Failed to ${action}`,
+      details: error.message 
+    });
+  };
+
+  // Single mappings. Writes honour If-Match with the ETag (or `version`) the
+  // client last saw, so concurrent edits can't silently overwrite each other.
+  app.get('/api/mappings/:userId', async (req, res) => {
+    try {
+      const mapping = (await readMappings()).find(m => m.userId === req.params.userId);
+      if (!mapping) {
+        return res.status(404).json({ error: 'Mapping not found' });
+      }
+      res.set('ETag', `"${mappingVersion(mapping)}"`);
+      res.json(withVersion(mapping));
+    } catch (error) {
+      sendMappingError(res, error, 'read mapping');
+    }
+  });
+
+  // Create or replace
+  app.put('/api/mappings/:userId', requireRole('mapper'), validateBody(mappingFieldsSchema), async (req, res) => {
+    try {
+      await changeMapping(req, res, current => ({
+        userId: req.params.userId,
+        ...req.body,
+        addedOn: req.body.addedOn || current?.addedOn || new Date().toISOString().split('T')[0],
+        channels: req.body.channels || [],
+        status: req.body.status || 'active'
+      }), { create: true });
+    } catch (error) {
+      sendMappingError(res, error, 'save mapping');
+    }
+  });
+
+  // Change some fields; customFields, if given, replaces the whole set
+  app.patch('/api/mappings/:userId', requireRole('mapper'), validateBody(mappingPatchSchema), async (req, res) => {
+    try {
+      await changeMapping(req, res, current => ({ ...current, ...req.body }));
+    } catch (error) {
+      sendMappingError(res, error, 'update mapping');
+    }
+  });
+
+  app.delete('/api/mappings/:userId', requireRole('mapper'), async (req, res) => {
+    try {
+      await changeMapping(req, res, () => null);
+    } catch (error) {
+      sendMappingError(res, error, 'delete mapping');
+    }
+  });
+
+  const sendTemplateError = (res, error, action) => {
+    if (error instanceof TemplateValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({ 
+      error: `Failed to ${action}`,
+      details: error.message 
+    });
+  };
+
+  // Message templates
+  app.get('/api/templates', (req, res) => {
+    try {
+      res.json(templateStore.list());
+    } catch (error) {
+      sendTemplateError(res, error, 'read templates');
+    }
+  });
+
+  app.get('/api/templates/:id', (req, res) => {
+    try {
+      const template = templateStore.get(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      res.json(template);
+    } catch (error) {
+      sendTemplateError(res, error, 'read template');
+    }
+  });
+
+  app.post('/api/templates', requireRole('admin'), validateBody(templateCreateSchema), (req, res) => {
+    try {
+      const { name, text, isDefault } = req.body;
+      const template = templateStore.create({ name, text, isDefault });
+      console.log(`Created template "${template.name}"`);
+      res.status(201).json(template);
+    } catch (error) {
+      sendTemplateError(res, error, 'create template');
+    }
+  });
+
+  // Rename, save a new version (text) or restore an earlier one (version)
+  app.put('/api/templates/:id', requireRole('admin'), validateBody(templateUpdateSchema), (req, res) => {
+    try {
+      const { name, text, version } = req.body;
+      const template = templateStore.update(req.params.id, { name, text, version });
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      res.json(template);
+    } catch (error) {
+      sendTemplateError(res, error, 'update template');
+    }
+  });
+
+  app.post('/api/templates/:id/duplicate', requireRole('admin'), validateBody(templateDuplicateSchema), (req, res) => {
+    try {
+      const template = templateStore.duplicate(req.params.id, { name: req.body.name });
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      res.status(201).json(template);
+    } catch (error) {
+      sendTemplateError(res, error, 'duplicate template');
+    }
+  });
+
+  app.post('/api/templates/:id/default', requireRole('admin'), (req, res) => {
+    try {
+      const template = templateStore.setDefault(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      res.json(template);
+    } catch (error) {
+      sendTemplateError(res, error, 'set default template');
+    }
+  });
+
+  app.delete('/api/templates/:id', requireRole('admin'), (req, res) => {
+    try {
+      if (!templateStore.remove(req.params.id)) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      sendTemplateError(res, error, 'delete template');
+    }
+  });
+
+  // Registered channels
+  app.get('/api/channels', (req, res) => {
+    try {
+      res.json(channelRegistry.list());
+    } catch (error) {
+      console.error('Error reading channels:', error);
+      res.status(500).json({ 
+        error: 'Failed to read channels',
+        details: error.message 
+      });
+    }
+  });
+
+  app.post('/api/channels', requireRole('admin'), validateBody(channelSchema), (req, res) => {
+    try {
+      const { id, name } = req.body;
+      const channel = channelRegistry.add({ id, name });
+      console.log(`Registered channel ${channel.name} (${channel.id})`);
+      res.status(201).json(channel);
+    } catch (error) {
+      console.error('Error adding channel:', error);
+      res.status(500).json({ 
+        error: 'Failed to add channel',
+        details: error.message 
+      });
+    }
+  });
+
+  // Removing a channel keeps its members' mappings; they are cleaned up on
+  // the next refresh of their other channels
+  app.delete('/api/channels/:id', requireRole('admin'), (req, res) => {
+    try {
+      if (!channelRegistry.remove(req.params.id)) {
+        return res.status(404).json({ error: 'Channel not found' });
+      }
+      welcomeRules.remove(req.params.id);
+      console.log(`Removed channel ${req.params.id}`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error removing channel:', error);
+      res.status(500).json({ 
+        error: 'Failed to remove channel',
+        details: error.message 
+      });
+    }
+  });
+
+  // Automatic welcome DMs, one rule per registered channel
+  app.get('/api/welcome-rules', (req, res) => {
+    try {
+      res.json(welcomeRules.list());
+    } catch (error) {
+      console.error('Error reading welcome rules:', error);
+      res.status(500).json({
+        error: 'Failed to read welcome rules',
+        details: error.message
+      });
+    }
+  });
+
+  // Body: { enabled, dryRun, templateId, delayMinutes, quietHours: { start, end } | null }
+  app.put('/api/welcome-rules/:channelId', requireRole('admin'), validateBody(welcomeRuleSchema), (req, res) => {
+    try {
+      if (!channelRegistry.get(req.params.channelId)) {
+        return res.status(404).json({ error: 'Channel not found' });
+      }
+      if (req.body.templateId && !templateStore.get(req.body.templateId)) {
+        return res.status(400).json({ error: 'Template not found' });
+      }
+
+      const rule = welcomeRules.save(req.params.channelId, req.body, req.user.username);
+      console.log(`Welcome rule for ${rule.channelId} ${rule.enabled ? 'enabled' : 'disabled'}${rule.dryRun ? ' (dry run)' : ''}`);
+      res.json(rule);
+    } catch (error) {
+      console.error('Error saving welcome rule:', error);
+      res.status(500).json({
+        error: 'Failed to save welcome rule',
+        details: error.message
+      });
+    }
+  });
+
+  app.delete('/api/welcome-rules/:channelId', requireRole('admin'), (req, res) => {
+    try {
+      if (!welcomeRules.remove(req.params.channelId)) {
+        return res.status(404).json({ error: 'Welcome rule not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error removing welcome rule:', error);
+      res.status(500).json({
+        error: 'Failed to remove welcome rule',
+        details: error.message
+      });
+    }
+  });
+
+  // Refresh mappings from Slack for the given registered channels, or all of them.
+  // The sync runs in the background; follow it via GET /api/sync or the
+  // /api/sync/events stream.
+  app.post('/api/sync', requireRole('mapper'), validateBody(syncRequestSchema), (req, res) => {
+    if (!getBotToken()) {
+      return res.status(503).json({ error: 'SLACK_BOT_TOKEN is not configured on the server' });
+    }
+
+    const { channelIds } = req.body;
+    const channels = channelIds
+      ? channelIds.map(id => channelRegistry.get(id)).filter(Boolean)
+      : channelRegistry.list();
+
+    if (channels.length === 0) {
+      return res.status(400).json({ error: 'No registered channels to sync' });
+    }
+
+    const run = mappingSync.start(channels, { trigger: 'manual', startedBy: req.user.username });
+    if (!run) {
+      return res.status(409).json({ error: 'A sync is already running', run: mappingSync.getRun() });
+    }
+
+    console.log(`Sync ${run.id} started by ${req.user.username} for ${channels.length} channel(s)`);
+    res.status(202).json(run);
+  });
+
+  // Latest sync run, or null if none has run since the server started
+  app.get('/api/sync', (req, res) => {
+    res.json(mappingSync.getRun());
+  });
+
+  // Finished runs with their joins, leaves and profile changes, newest first
+  app.get('/api/sync/runs', validateQuery(syncRunsQuerySchema), (req, res) => {
+    try {
+      res.json(syncHistory.list({ since: req.query.since }));
+    } catch (error) {
+      console.error('Error reading sync history:', error);
+      res.status(500).json({
+        error: 'Failed to read sync history',
+        details: error.message
+      });
+    }
+  });
+
+  // Server-Sent Events: the current run straight away, then every change
+  app.get('/api/sync/events', (req, res) => {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.flushHeaders();
+
+    const send = (run) => res.write(`event: sync\ndata: ${JSON.stringify(run)}\n\n`);
+    send(mappingSync.getRun());
+
+    const unsubscribe = mappingSync.subscribe(send);
+    req.on('close', unsubscribe);
+  });
+
+  // Server-Sent Events for the UI: `mappings` and `history` when either
+  // changes (whoever changed it), and `sync` with the run on every step,
+  // starting with the current one
+  app.get('/api/updates', (req, res) => {
+    liveUpdates.stream(req, res, [['sync', mappingSync.getRun()]]);
+  });
+
+  // Lets the UI know whether Slack calls will work without exposing the token
+  app.get('/api/slack/status', (req, res) => {
+    res.json({ configured: Boolean(getBotToken()) });
+  });
+
+  // Every other Slack route needs the server's bot token
+  app.use('/api/slack', (req, res, next) => {
+    if (!getBotToken()) {
+      return res.status(503).json({
+        success: false,
+        error: 'SLACK_BOT_TOKEN is not configured on the server'
+      });
+    }
+    next();
+  });
+
   // Proxy for Slack API requests
-  app.post('/api/slack/conversations.members', async (req, res) => {
+  app.get('/api/slack/conversations.list', requireRole('mapper'), async (req, res) => {
+    try {
+      let channels = [];
+      let cursor;
+
+      do {
+        const data = await getSlack('conversations.list', {
+          types: 'public_channel,private_channel',
+          exclude_archived: true,
+          limit: 200,
+          ...(cursor ? { cursor } : {})
+        }, getBotToken());
+        channels = [...channels, ...data.channels];
+        cursor = data.response_metadata?.next_cursor;
+      } while (cursor);
+
+      res.json(channels.map(channel => ({
+        id: channel.id,
+        name: channel.name,
+        isPrivate: channel.is_private,
+        isMember: channel.is_member,
+        numMembers: channel.num_members
+      })));
+    } catch (error) {
+      console.error('Error proxying to Slack API:', error.message);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // One page of workspace users; the client follows `nextCursor`. Each page also
+  // refreshes the profile cache used by users.info.
+  app.get('/api/slack/users.list', requireRole('mapper'), validateQuery(usersListQuerySchema), async (req, res) => {
     try {
-      const { token, channel, limit, cursor } = req.body;
+      const { cursor, limit = 200 } = req.query;
+      const data = await getSlack('users.list', {
+        limit,
+        ...(cursor ? { cursor } : {})
+      }, getBotToken());
+
+      profileCache.prime(data.members);
+      res.json({
+        ok: true,
+        members: data.members,
+        nextCursor: data.response_metadata?.next_cursor || undefined
+      });
+    } catch (error) {
+      console.error('Error proxying to Slack API:', error.message);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post('/api/slack/conversations.members', requireRole('mapper'), validateBody(conversationsMembersSchema), async (req, res) => {
+    try {
+      const { channel, limit, cursor } = req.body;
       
       const response = await axios.post('https://slack.com/api/conversations.members', 
         { channel, limit, ...(cursor ? { cursor } : {}) },
         { 
           headers: { 
             'Content-Type': 'application/x-www-form-urlencoded',
-            'Authorization': `Bearer ${token || process.env.SLACK_BOT_TOKEN}`
+            'Authorization': `Bearer ${getBotToken()}`
           }
         }
       );
@@ -137,18 +1014,11 @@ try {
     }
   });
 
-  app.get('/api/slack/users.info', async (req, res) => {
+  app.get('/api/slack/users.info', requireRole('mapper'), validateQuery(usersInfoQuerySchema), async (req, res) => {
     try {
-      const { user } = req.query;
-      const token = req.headers.authorization?.split(' ')[1] || process.env.SLACK_BOT_TOKEN;
-      
-      const response = await axios.get(`https://slack.com/api/users.info?user=${user}`, {
-        headers: { 
-          'Authorization': `Bearer ${token}`
-        }
-      });
-      
-      res.json(response.data);
+      // Served from the profile cache when this user was looked up recently
+      const { user, cached } = await profileCache.get(req.query.user);
+      res.json({ ok: true, user, cached });
     } catch (error) {
       console.error('Error proxying to Slack API:', error.message);
       res.status(500).json({ error: error.message });
@@ -156,50 +1026,15 @@ try {
   });
 
   // New endpoint for sending direct messages to users
-  app.post('/api/slack/send-dm', async (req, res) => {
+  app.post('/api/slack/send-dm', requireRole('sender'), validateBody(sendDmSchema), async (req, res) => {
     try {
-      const { userId, messageText, token } = req.body;
-      const authToken = token || process.env.SLACK_BOT_TOKEN;
-      
-      // First open a direct message channel
-      const openResponse = await axios.post('https://slack.com/api/conversations.open', 
-        { users: userId },
-        { 
-          headers: { 
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${authToken}`
-          }
-        }
-      );
-      
-      if (!openResponse.data.ok) {
-        throw new Error(`Failed to open DM channel: ${openResponse.data.error}`);
-      }
-      
-      const dmChannelId = openResponse.data.channel.id;
-      
-      // Then send the message to the channel
-      const messageResponse = await axios.post('https://slack.com/api/chat.postMessage', 
-        { 
-          channel: dmChannelId,
-          text: messageText 
-        },
-        { 
-          headers: { 
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${authToken}`
-          }
-        }
-      );
-      
-      if (!messageResponse.data.ok) {
-        throw new Error(`Failed to send message: ${messageResponse.data.error}`);
-      }
+      const { userId, messageText, sourceText, template } = req.body;
+      const { messageTs, channel } = await sendDm({ userId, messageText, sourceText, template });
       
       res.json({
         success: true,
-        messageTs: messageResponse.data.ts,
-        channel: dmChannelId
+        messageTs,
+        channel
       });
     } catch (error) {
       console.error('Error sending DM via Slack API:', error.message);
@@ -210,11 +1045,200 @@ try {
     }
   });
 
+  // Audit log of sent DMs, newest first; filter with ?userId= and ?status=sent|scheduled|failed|deleted|cancelled
+  app.get('/api/history', validateQuery(historyQuerySchema), (req, res) => {
+    try {
+      const { userId, status } = req.query;
+      res.json(messageHistory.list({ userId, status }));
+    } catch (error) {
+      console.error('Error reading message history:', error);
+      res.status(500).json({ 
+        error: 'Failed to read message history',
+        details: error.message 
+      });
+    }
+  });
+
+  // Schedule a DM for later delivery by Slack; postAt is a Unix timestamp in seconds
+  app.post('/api/slack/schedule-dm', requireRole('sender'), validateBody(scheduleDmSchema), async (req, res) => {
+    try {
+      const { userId, messageText, sourceText, postAt, template } = req.body;
+      const result = await scheduleDm({ userId, messageText, sourceText, template, postAt });
+      res.json({
+        success: true,
+        ...result
+      });
+    } catch (error) {
+      console.error('Error scheduling DM via Slack API:', error.message);
+      res.status(500).json({ 
+        success: false, 
+        error: error.message 
+      });
+    }
+  });
+
+  // Messages the bot has scheduled that Slack hasn't delivered yet
+  app.get('/api/slack/scheduled-messages', async (req, res) => {
+    try {
+      let scheduledMessages = [];
+      let cursor;
+
+      do {
+        const data = await callSlack('chat.scheduledMessages.list', {
+          limit: 100,
+          ...(cursor ? { cursor } : {})
+        }, getBotToken());
+        scheduledMessages = [...scheduledMessages, ...data.scheduled_messages];
+        cursor = data.response_metadata?.next_cursor;
+      } while (cursor);
+
+      res.json(scheduledMessages.map(message => ({
+        id: message.id,
+        channel: message.channel_id,
+        postAt: message.post_at,
+        createdAt: message.date_created,
+        text: message.text
+      })));
+    } catch (error) {
+      console.error('Error listing scheduled messages:', error.message);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post('/api/slack/scheduled-messages/:id/cancel', requireRole('sender'), validateBody(cancelScheduledMessageSchema), async (req, res) => {
+    try {
+      const { channel } = req.body;
+      await callSlack('chat.deleteScheduledMessage', {
+        channel,
+        scheduled_message_id: req.params.id
+      }, getBotToken());
+
+      const entry = messageHistory.list({ status: 'scheduled' })
+        .find(e => e.scheduledMessageId === req.params.id);
+      if (entry) {
+        messageHistory.update(entry.id, { status: 'cancelled', cancelledAt: new Date().toISOString() });
+      }
+
+      console.log(`Cancelled scheduled message ${req.params.id}`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error cancelling scheduled message:', error.message);
+      res.status(500).json({ 
+        success: false, 
+        error: error.message 
+      });
+    }
+  });
+
+  // Look up a sent DM in the history so it can be changed in Slack
+  const findSentMessage = (historyId, res) => {
+    const entry = messageHistory.get(historyId);
+    if (!entry) {
+      res.status(404).json({ error: 'Message not found in history' });
+      return null;
+    }
+    if (entry.status !== 'sent' || !entry.messageTs || !entry.channel) {
+      res.status(400).json({ error: `Message is ${entry.status} and can't be changed in Slack` });
+      return null;
+    }
+    return entry;
+  };
+
+  // Edit a previously sent DM in place
+  app.post('/api/slack/chat.update', requireRole('sender'), validateBody(chatUpdateSchema), async (req, res) => {
+    try {
+      const { historyId, text, sourceText } = req.body;
+      const entry = findSentMessage(historyId, res);
+      if (!entry) return;
+
+      await callSlack('chat.update', { channel: entry.channel, ts: entry.messageTs, text }, getBotToken());
+
+      const updated = messageHistory.update(entry.id, {
+        text,
+        sourceText,
+        editedAt: new Date().toISOString(),
+        edits: [...(entry.edits || []), { text: entry.text, replacedAt: new Date().toISOString() }]
+      });
+      console.log(`Edited DM ${entry.messageTs} to ${entry.userId}`);
+      res.json({ success: true, entry: updated });
+    } catch (error) {
+      console.error('Error updating DM via Slack API:', error.message);
+      res.status(500).json({ 
+        success: false, 
+        error: error.message 
+      });
+    }
+  });
+
+  // Retract a previously sent DM
+  app.post('/api/slack/chat.delete', requireRole('sender'), validateBody(chatDeleteSchema), async (req, res) => {
+    try {
+      const { historyId } = req.body;
+
+      const entry = findSentMessage(historyId, res);
+      if (!entry) return;
+
+      await callSlack('chat.delete', { channel: entry.channel, ts: entry.messageTs }, getBotToken());
+
+      const updated = messageHistory.update(entry.id, {
+        status: 'deleted',
+        deletedAt: new Date().toISOString()
+      });
+      console.log(`Deleted DM ${entry.messageTs} to ${entry.userId}`);
+      res.json({ success: true, entry: updated });
+    } catch (error) {
+      console.error('Error deleting DM via Slack API:', error.message);
+      res.status(500).json({ 
+        success: false, 
+        error: error.message 
+      });
+    }
+  });
+
+  // Queue a batch of DMs; the queue paces sends and retries rate-limited calls
+  app.post('/api/slack/dm-jobs', requireRole('sender'), validateBody(dmJobSchema), (req, res) => {
+    try {
+      const { userIds, messages, messageText, template, postAt } = req.body;
+
+      // Either per-recipient `messages` or one `messageText` for all `userIds`
+      const jobMessages = messages || userIds.map(userId => ({ userId, messageText }));
+
+      const job = dmQueue.enqueue({ messages: jobMessages, messageText, template, postAt });
+      res.status(202).json(job);
+    } catch (error) {
+      console.error('Error queueing DM job:', error);
+      res.status(500).json({ 
+        error: 'Failed to queue DM job',
+        details: error.message 
+      });
+    }
+  });
+
+  app.get('/api/slack/dm-jobs', (req, res) => {
+    res.json(dmQueue.listJobs());
+  });
+
+  app.get('/api/slack/dm-jobs/:jobId', (req, res) => {
+    const job = dmQueue.getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'DM job not found' });
+    }
+    res.json(job);
+  });
+
+  app.post('/api/slack/dm-jobs/:jobId/cancel', requireRole('sender'), (req, res) => {
+    const job = dmQueue.cancel(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'DM job not found' });
+    }
+    res.json(job);
+  });
+
   // Launch server
   app.listen(PORT, () => {
     console.log(`Server running on http://localhost:${PORT}`);
     console.log(`To use with Slack API, set SLACK_BOT_TOKEN in .env file`);
-    console.log(`User mappings will be stored in ${MAPPINGS_FILE}`);
+    console.log(`Mappings, channels, templates and message history are stored in ${DATABASE_FILE}`);
   });
 } catch (error) {
   console.error('Server failed to start:', error);
@@ -0,0 +1,42 @@
+import path from 'path';
+import readline from 'readline';
+import { Writable } from 'stream';
+import { createAuth } from './auth.js';
+
+// Usage: npm run add-user -- <username> [viewer|mapper|sender|admin]
+// Creates the user (or resets their password and role) in users.json
+const [username, role] = process.argv.slice(2);
+
+if (!username) {
+  console.error('Usage: npm run add-user -- <username> [viewer|mapper|sender|admin]');
+  process.exit(1);
+}
+
+const auth = createAuth({ usersFile: path.join(process.cwd(), 'users.json') });
+
+// Passes the prompt through to the terminal but not the password typed after
+// it, so it doesn't end up on screen or in the scrollback
+let muted = false;
+const output = new Writable({
+  write(chunk, encoding, callback) {
+    if (!muted) process.stdout.write(chunk, encoding);
+    callback();
+  }
+});
+// The terminal setting is normally taken from `output`, which isn't a TTY;
+// readline has to own the terminal to switch off its echo
+const rl = readline.createInterface({ input: process.stdin, output, terminal: Boolean(process.stdin.isTTY) });
+
+rl.question(`Password for ${username}: `, (password) => {
+  muted = false;
+  process.stdout.write('\n');
+  rl.close();
+  try {
+    const user = auth.setPassword(username, password, role);
+    console.log(`Saved user ${user.username} with role ${user.role}`);
+  } catch (error) {
+    console.error(error.message);
+    process.exit(1);
+  }
+});
+muted = true;
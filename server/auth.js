@@ -0,0 +1,202 @@
+import fs from 'fs';
+import crypto from 'crypto';
+
+const SESSION_COOKIE = 'sid';
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 64;
+
+// Ordered from least to most privileged; each role can do everything the ones before it can
+export const ROLES = ['viewer', 'mapper', 'sender', 'admin'];
+
+export const hasRole = (user, role) => ROLES.indexOf(user?.role) >= ROLES.indexOf(role);
+
+// Route guard for use after requireAuth
+export const requireRole = (role) => (req, res, next) => {
+  if (!hasRole(req.user, role)) {
+    return res.status(403).json({ error: `This action requires the ${role} role` });
+  }
+  next();
+};
+
+// Stored as "scrypt$<salt>$<hash>", both hex encoded
+const hashPassword = (password) => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+};
+
+const verifyPassword = (password, stored) => {
+  const [scheme, salt, hash] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+};
+
+export const parseCookies = (header = '') =>
+  Object.fromEntries(header.split(';')
+    .map(part => part.trim().split('='))
+    .filter(([name, value]) => name && value !== undefined)
+    .map(([name, ...value]) => [name, decodeURIComponent(value.join('='))]));
+
+/**
+ * Local user accounts (persisted as a JSON file of password hashes) and the
+ * cookie sessions that authenticate API requests. Sessions can also be started
+ * for users signed in elsewhere (e.g. Slack); `resolveExternalUser` is asked on
+ * every request for that user's current record (or null once access is
+ * revoked), so role changes take effect immediately. Sessions live in memory,
+ * so restarting the server signs everyone out.
+ */
+export const createAuth = ({ usersFile, sessionTtlMs = SESSION_TTL_MS, resolveExternalUser = () => null }) => {
+  const sessions = new Map();
+
+  const readUsers = () => {
+    if (!fs.existsSync(usersFile)) {
+      return [];
+    }
+    return JSON.parse(fs.readFileSync(usersFile, 'utf8'));
+  };
+
+  const writeUsers = (users) => {
+    fs.writeFileSync(usersFile, JSON.stringify(users, null, 2));
+  };
+
+  const initialize = () => {
+    if (!fs.existsSync(usersFile)) {
+      console.log(`Creating new users file at: ${usersFile}`);
+      writeUsers([]);
+    }
+    if (readUsers().length === 0) {
+      console.log('No local users; run "npm run add-user -- <username>" to create one');
+    }
+  };
+
+  // Public shape of a user; never includes the password hash
+  const toUser = ({ username, role, createdAt }) => ({
+    username,
+    role: ROLES.includes(role) ? role : 'viewer',
+    createdAt,
+    provider: 'password'
+  });
+
+  const hasLocalUsers = () => readUsers().length > 0;
+
+  // Creates the user, or resets the password (and optionally role) of an
+  // existing one. The first user created is an admin unless told otherwise.
+  const setPassword = (username, password, role) => {
+    if (typeof username !== 'string' || !username.trim()) {
+      throw new Error('Username is required');
+    }
+    if (typeof password !== 'string' || password.length < 8) {
+      throw new Error('Password must be at least 8 characters');
+    }
+    if (role !== undefined && !ROLES.includes(role)) {
+      throw new Error(`Role must be one of: ${ROLES.join(', ')}`);
+    }
+
+    const users = readUsers();
+    const name = username.trim().toLowerCase();
+    let user = users.find(u => u.username === name);
+
+    if (user) {
+      user.passwordHash = hashPassword(password);
+      user.role = role || user.role;
+    } else {
+      user = {
+        username: name,
+        role: role || (users.length === 0 ? 'admin' : 'viewer'),
+        passwordHash: hashPassword(password),
+        createdAt: new Date().toISOString()
+      };
+      users.push(user);
+    }
+
+    writeUsers(users);
+    return toUser(user);
+  };
+
+  // `user` is the public user shape; external users carry their own `provider`
+  const startSession = (user) => {
+    const id = crypto.randomBytes(32).toString('hex');
+    sessions.set(id, { user, expiresAt: Date.now() + sessionTtlMs });
+    return id;
+  };
+
+  // Returns a new session id, or null if the credentials don't match
+  const login = (username, password) => {
+    const name = typeof username === 'string' ? username.trim().toLowerCase() : '';
+    const user = readUsers().find(u => u.username === name);
+
+    if (!user || typeof password !== 'string' || !verifyPassword(password, user.passwordHash)) {
+      return null;
+    }
+
+    return { sessionId: startSession(toUser(user)), user: toUser(user) };
+  };
+
+  const getSessionId = (req) => parseCookies(req.headers.cookie)[SESSION_COOKIE];
+
+  // The signed-in user for this request, or null
+  const getUser = (req) => {
+    const sessionId = getSessionId(req);
+    const session = sessionId && sessions.get(sessionId);
+    if (!session) return null;
+
+    if (session.expiresAt < Date.now()) {
+      sessions.delete(sessionId);
+      return null;
+    }
+
+    if (session.user.provider !== 'password') {
+      return resolveExternalUser(session.user);
+    }
+
+    const user = readUsers().find(u => u.username === session.user.username);
+    return user ? toUser(user) : null;
+  };
+
+  const logout = (req) => {
+    const sessionId = getSessionId(req);
+    if (sessionId) {
+      sessions.delete(sessionId);
+    }
+  };
+
+  const setSessionCookie = (res, sessionId) => {
+    res.cookie(SESSION_COOKIE, sessionId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: sessionTtlMs,
+      path: '/'
+    });
+  };
+
+  const clearSessionCookie = (res) => {
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+  };
+
+  // Rejects requests without a valid session; the user is left on req.user
+  const requireAuth = (req, res, next) => {
+    const user = getUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    req.user = user;
+    next();
+  };
+
+  return {
+    initialize,
+    setPassword,
+    hasLocalUsers,
+    login,
+    startSession,
+    getUser,
+    logout,
+    setSessionCookie,
+    clearSessionCookie,
+    requireAuth
+  };
+};
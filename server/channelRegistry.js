@@ -0,0 +1,51 @@
+import { getMeta, setMeta } from './database.js';
+
+const toChannel = (row) => ({ id: row.id, name: row.name, addedAt: row.added_at });
+
+/**
+ * The Slack channels this app tracks members of, stored in SQLite.
+ * Channel IDs are the key; the name is kept for display only.
+ */
+export const createChannelRegistry = ({ db }) => {
+  const insertChannel = db.prepare('INSERT INTO channels (id, name, added_at) VALUES (?, ?, ?)');
+
+  // Seed the registry once with the channel from the old single-channel setup
+  const initialize = (seedChannelId) => {
+    if (getMeta(db, 'channels_seeded')) return;
+
+    db.transaction(() => {
+      const empty = db.prepare('SELECT COUNT(*) AS count FROM channels').get().count === 0;
+      if (empty && seedChannelId) {
+        console.log(`Registering channel ${seedChannelId} from SLACK_CHANNEL_ID`);
+        insertChannel.run(seedChannelId, seedChannelId, new Date().toISOString());
+      }
+      setMeta(db, 'channels_seeded', new Date().toISOString());
+    })();
+  };
+
+  const list = () => db.prepare('SELECT * FROM channels ORDER BY rowid').all().map(toChannel);
+
+  const get = (id) => {
+    const row = db.prepare('SELECT * FROM channels WHERE id = ?').get(id);
+    return row ? toChannel(row) : null;
+  };
+
+  // Adding a channel that's already registered just refreshes its name
+  const add = ({ id, name }) => {
+    const existing = get(id);
+
+    if (existing) {
+      if (name) {
+        db.prepare('UPDATE channels SET name = ? WHERE id = ?').run(name, id);
+      }
+      return get(id);
+    }
+
+    insertChannel.run(id, name || id, new Date().toISOString());
+    return get(id);
+  };
+
+  const remove = (id) => db.prepare('DELETE FROM channels WHERE id = ?').run(id).changes > 0;
+
+  return { initialize, list, get, add, remove };
+};
@@ -0,0 +1,41 @@
+import Database from 'better-sqlite3';
+import { migrations } from './migrations.js';
+
+// Brings the schema up to date, one transaction per migration
+const migrate = (db) => {
+  const applied = db.pragma('user_version', { simple: true });
+  if (applied > migrations.length) {
+    throw new Error(`Database schema version ${applied} is newer than this server (${migrations.length}); upgrade the server`);
+  }
+
+  migrations.slice(applied).forEach((migration, index) => {
+    const version = applied + index + 1;
+    db.transaction(() => {
+      db.exec(migration.up);
+      db.pragma(`user_version = ${version}`);
+    })();
+    console.log(`Applied database migration ${version}: ${migration.name}`);
+  });
+};
+
+/**
+ * Opens (creating if needed) the SQLite database that holds mappings,
+ * channels, templates and message history, and applies pending migrations.
+ * Writes go through transactions, so concurrent requests can't interleave
+ * a read-modify-write the way they could with the JSON files.
+ */
+export const openDatabase = ({ file }) => {
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+};
+
+// Small key/value settings, e.g. whether the JSON import has run
+export const getMeta = (db, key) => db.prepare('SELECT value FROM meta WHERE key = ?').get(key)?.value ?? null;
+
+export const setMeta = (db, key, value) => {
+  db.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value')
+    .run(key, value);
+};
@@ -0,0 +1,271 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { SlackApiError } from './slackApi.js';
+
+const DEFAULT_INTERVAL_MS = 1100;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+const MAX_STORED_JOBS = 50;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// How long to wait before retrying a failed send, or null if the error is
+// permanent (e.g. user_not_found) and retrying would not help
+const getRetryDelay = (error, attempt) => {
+  if (error instanceof SlackApiError) {
+    if (error.isRateLimited && error.retryAfter) {
+      return error.retryAfter * 1000;
+    }
+    if (!error.isTransient) {
+      return null;
+    }
+  }
+  // Rate limits without Retry-After, 5xx and network errors: exponential backoff
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+};
+
+const summarizeJob = (job) => {
+  const counts = { pending: 0, sending: 0, sent: 0, failed: 0, cancelled: 0 };
+  job.recipients.forEach(recipient => { counts[recipient.status]++; });
+  return {
+    ...job,
+    total: job.recipients.length,
+    counts
+  };
+};
+
+/**
+ * Persistent, single-worker queue for bulk DM jobs. Sends are paced one at a
+ * time, rate limits pause the whole queue for Slack's Retry-After, and job
+ * state is written to `jobsFile` after every change so an interrupted batch
+ * resumes where it left off when the server restarts. `onResult` is called
+ * once per recipient when it ends up sent or failed.
+ */
+export const createDmQueue = ({
+  jobsFile,
+  sendDm,
+  getToken,
+  onResult = () => {},
+  intervalMs = DEFAULT_INTERVAL_MS,
+  maxAttempts = DEFAULT_MAX_ATTEMPTS
+}) => {
+  let jobs = [];
+  let processing = false;
+
+  const loadJobs = () => {
+    if (!fs.existsSync(jobsFile)) {
+      return [];
+    }
+    try {
+      return JSON.parse(fs.readFileSync(jobsFile, 'utf8'));
+    } catch (error) {
+      console.error(`Failed to read DM jobs from ${jobsFile}, starting with an empty queue:`, error.message);
+      return [];
+    }
+  };
+
+  const saveJobs = () => {
+    // Keep every unfinished job, but only the most recent finished ones
+    const unfinished = jobs.filter(job => job.status === 'queued' || job.status === 'running');
+    const finished = jobs.filter(job => job.status !== 'queued' && job.status !== 'running');
+    jobs = [...finished.slice(-MAX_STORED_JOBS), ...unfinished]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    try {
+      fs.writeFileSync(jobsFile, JSON.stringify(jobs, null, 2));
+    } catch (error) {
+      console.error('Failed to persist DM jobs:', error.message);
+    }
+  };
+
+  const touch = (job) => {
+    job.updatedAt = new Date().toISOString();
+    saveJobs();
+  };
+
+  const finishJob = (job) => {
+    if (job.status === 'running') {
+      job.status = 'completed';
+      job.completedAt = new Date().toISOString();
+    }
+    touch(job);
+    const sent = job.recipients.filter(r => r.status === 'sent').length;
+    console.log(`DM job ${job.id} ${job.status}: ${sent}/${job.recipients.length} sent`);
+  };
+
+  const sendWithRetries = async (job, recipient) => {
+    while (recipient.attempts < maxAttempts) {
+      if (job.status === 'cancelled') return;
+
+      recipient.attempts++;
+      recipient.status = 'sending';
+      touch(job);
+
+      try {
+        const result = await sendDm(
+          getToken(),
+          recipient.userId,
+          recipient.messageText ?? job.messageText,
+          { postAt: job.postAt }
+        );
+        recipient.status = 'sent';
+        Object.assign(recipient, result);
+        recipient.sentAt = new Date().toISOString();
+        delete recipient.error;
+        touch(job);
+        onResult(job, recipient);
+        return;
+      } catch (error) {
+        recipient.error = error.message;
+        const delay = getRetryDelay(error, recipient.attempts);
+
+        if (delay === null || recipient.attempts >= maxAttempts) {
+          break;
+        }
+
+        console.log(`DM to ${recipient.userId} failed (${error.message}), retrying in ${delay}ms`);
+        recipient.status = 'pending';
+        touch(job);
+        await sleep(delay);
+      }
+    }
+
+    recipient.status = job.status === 'cancelled' ? 'cancelled' : 'failed';
+    touch(job);
+    if (recipient.status === 'failed') {
+      onResult(job, recipient);
+    }
+  };
+
+  const processJob = async (job) => {
+    job.status = 'running';
+    job.startedAt = job.startedAt || new Date().toISOString();
+    touch(job);
+
+    let first = true;
+    for (const recipient of job.recipients) {
+      if (job.status === 'cancelled') break;
+      if (recipient.status !== 'pending') continue;
+
+      if (!first) {
+        await sleep(intervalMs);
+      }
+      first = false;
+
+      await sendWithRetries(job, recipient);
+    }
+
+    finishJob(job);
+  };
+
+  const processQueue = async () => {
+    if (processing) return;
+    processing = true;
+
+    try {
+      let job;
+      while ((job = jobs.find(j => j.status === 'queued' || j.status === 'running'))) {
+        await processJob(job);
+      }
+    } catch (error) {
+      console.error('DM queue stopped unexpectedly:', error);
+    } finally {
+      processing = false;
+    }
+  };
+
+  // `messages` is a list of { userId, messageText, realName? } so each
+  // recipient can get personalised text; `messageText` is the shared
+  // (unrendered) text, if any. With `postAt` (Unix seconds) each message is
+  // scheduled rather than sent. `welcomeChannelId` marks the automatic welcomes
+  // of that channel's welcome rule.
+  const enqueue = ({ messages, messageText, template, postAt, welcomeChannelId }) => {
+    const now = new Date().toISOString();
+    const seen = new Set();
+    const job = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      messageText,
+      template,
+      postAt,
+      welcomeChannelId,
+      createdAt: now,
+      updatedAt: now,
+      recipients: messages
+        .filter(message => !seen.has(message.userId) && seen.add(message.userId))
+        .map(message => ({
+          userId: message.userId,
+          messageText: message.messageText,
+          realName: message.realName,
+          status: 'pending',
+          attempts: 0
+        }))
+    };
+
+    jobs.push(job);
+    saveJobs();
+    console.log(`Queued DM job ${job.id} for ${job.recipients.length} recipients`);
+    void processQueue();
+
+    return summarizeJob(job);
+  };
+
+  const getJob = (id) => {
+    const job = jobs.find(j => j.id === id);
+    return job ? summarizeJob(job) : null;
+  };
+
+  const listJobs = () => jobs.map(summarizeJob).reverse();
+
+  // Whether `userId` is still waiting for a DM in an unfinished job; with
+  // `welcomeChannelId`, only in that channel's welcome jobs
+  const isPending = (userId, { welcomeChannelId } = {}) => jobs.some(job =>
+    (job.status === 'queued' || job.status === 'running') &&
+    (!welcomeChannelId || job.welcomeChannelId === welcomeChannelId) &&
+    job.recipients.some(r => r.userId === userId && (r.status === 'pending' || r.status === 'sending')));
+
+  const cancel = (id) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job) return null;
+
+    if (job.status === 'queued' || job.status === 'running') {
+      job.status = 'cancelled';
+      job.completedAt = new Date().toISOString();
+      job.recipients.forEach(recipient => {
+        if (recipient.status === 'pending') {
+          recipient.status = 'cancelled';
+        }
+      });
+      touch(job);
+      console.log(`Cancelled DM job ${job.id}`);
+    }
+
+    return summarizeJob(job);
+  };
+
+  // Pick up unfinished jobs from a previous run. A recipient caught mid-send
+  // is marked failed rather than retried: Slack may well have received the
+  // message, and a duplicate DM is worse than one to check by hand.
+  const resume = () => {
+    jobs = loadJobs();
+    const unfinished = jobs.filter(job => job.status === 'queued' || job.status === 'running');
+    unfinished.forEach(job => {
+      job.recipients.forEach(recipient => {
+        if (recipient.status === 'sending') {
+          recipient.status = 'failed';
+          recipient.error = 'Interrupted by a server restart; delivery unknown';
+          onResult(job, recipient);
+        }
+      });
+    });
+
+    if (unfinished.length > 0) {
+      console.log(`Resuming ${unfinished.length} unfinished DM job(s)`);
+      saveJobs();
+      void processQueue();
+    }
+  };
+
+  return { enqueue, getJob, listJobs, isPending, cancel, resume };
+};
@@ -0,0 +1,64 @@
+import express from 'express';
+import crypto from 'crypto';
+import fs from 'fs';
+
+// Usage: npm run fake-slack-oauth -- [identity.json] [port]
+// A stand-in for Slack's OpenID Connect endpoints, to try "Sign in with Slack"
+// without a Slack app. Start the server with SLACK_OAUTH_BASE_URL pointing
+// here (http://localhost:3002 by default) and any SLACK_CLIENT_ID and
+// SLACK_CLIENT_SECRET; signing in then skips Slack's consent screen and comes
+// back as the identity in the file (server/fixtures/openid_userinfo.json by
+// default), which must be on SLACK_SIGNIN_ALLOWED_USERS.
+const [
+  identityFile = new URL('./fixtures/openid_userinfo.json', import.meta.url),
+  port = 3002
+] = process.argv.slice(2);
+
+const identity = JSON.parse(fs.readFileSync(identityFile, 'utf8'));
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+// Codes and tokens handed out so far; each code can be exchanged once
+const codes = new Map();
+const tokens = new Set();
+
+app.get('/openid/connect/authorize', (req, res) => {
+  const { client_id: clientId, redirect_uri: redirectUri, state } = req.query;
+  if (!clientId || !redirectUri) {
+    return res.status(400).send('client_id and redirect_uri are required');
+  }
+
+  const code = crypto.randomBytes(8).toString('hex');
+  codes.set(code, { clientId, redirectUri });
+  console.log(`Authorized ${identity.sub} for ${clientId}, redirecting to ${redirectUri}`);
+  res.redirect(`${redirectUri}?${new URLSearchParams({ code, ...(state ? { state } : {}) })}`);
+});
+
+app.post('/api/openid.connect.token', (req, res) => {
+  const { client_id: clientId, client_secret: clientSecret, code, redirect_uri: redirectUri } = req.body;
+  const issued = codes.get(code);
+  codes.delete(code);
+
+  if (!clientSecret) {
+    return res.json({ ok: false, error: 'invalid_client' });
+  }
+  if (!issued || issued.clientId !== clientId || issued.redirectUri !== redirectUri) {
+    return res.json({ ok: false, error: 'invalid_code' });
+  }
+
+  const accessToken = `xoxp-fake-${crypto.randomBytes(8).toString('hex')}`;
+  tokens.add(accessToken);
+  res.json({ ok: true, access_token: accessToken, token_type: 'Bearer' });
+});
+
+app.get('/api/openid.connect.userInfo', (req, res) => {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  if (!tokens.has(token)) {
+    return res.json({ ok: false, error: 'invalid_auth' });
+  }
+  res.json(identity);
+});
+
+app.listen(port, () => {
+  console.log(`Stand-in Slack OAuth server on http://localhost:${port}`);
+});
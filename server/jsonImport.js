@@ -0,0 +1,78 @@
+import fs from 'fs';
+import { getMeta, setMeta } from './database.js';
+import { replaceMappingsSync } from './mappingStores/sqliteStore.js';
+
+export class JsonImportError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'JsonImportError';
+  }
+}
+
+// Missing files import as empty; unreadable ones stop the import so nothing
+// is silently lost
+const readJsonArray = (file) => {
+  if (!file || !fs.existsSync(file)) {
+    return [];
+  }
+  let data;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new JsonImportError(`Cannot import ${file}: ${error.message}. Fix or move the file and restart.`);
+  }
+  if (!Array.isArray(data)) {
+    throw new JsonImportError(`Cannot import ${file}: expected a JSON array`);
+  }
+  return data;
+};
+
+/**
+ * One-time import of the JSON files the server used before SQLite
+ * (user_mappings.json, channels.json, message_templates.json and
+ * message_history.json). Runs in a single transaction the first time the
+ * database is opened and is recorded in `meta`, so it never runs again; the
+ * JSON files are left in place as a backup. Leave out `files.mappings` when
+ * mappings are kept somewhere other than SQLite. Returns what was imported,
+ * or null if the import had already happened.
+ */
+export const importJsonData = ({ db, files, messageHistory }) => {
+  if (getMeta(db, 'json_imported_at')) {
+    return null;
+  }
+
+  const mappings = readJsonArray(files.mappings);
+  const channels = readJsonArray(files.channels);
+  const templates = readJsonArray(files.templates);
+  const history = readJsonArray(files.history);
+
+  db.transaction(() => {
+    replaceMappingsSync(db, mappings);
+
+    const insertChannel = db.prepare('INSERT OR IGNORE INTO channels (id, name, added_at) VALUES (?, ?, ?)');
+    channels.forEach(channel => insertChannel.run(channel.id, channel.name || channel.id, channel.addedAt || new Date().toISOString()));
+
+    const insertTemplate = db.prepare(`
+      INSERT INTO templates (id, name, is_default, current_version, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const insertVersion = db.prepare(
+      'INSERT INTO template_versions (template_id, version, text, created_at) VALUES (?, ?, ?, ?)'
+    );
+    templates.forEach(template => {
+      insertTemplate.run(template.id, template.name, template.isDefault ? 1 : 0, template.currentVersion,
+        template.createdAt, template.updatedAt);
+      template.versions.forEach(v => insertVersion.run(template.id, v.version, v.text, v.createdAt));
+    });
+
+    history.forEach(messageHistory.insert);
+
+    // An imported channels.json replaces the SLACK_CHANNEL_ID seed
+    if (files.channels && fs.existsSync(files.channels)) {
+      setMeta(db, 'channels_seeded', new Date().toISOString());
+    }
+    setMeta(db, 'json_imported_at', new Date().toISOString());
+  })();
+
+  return { mappings: mappings.length, channels: channels.length, templates: templates.length, history: history.length };
+};
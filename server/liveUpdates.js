@@ -0,0 +1,45 @@
+// Keeps proxies and browsers from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+/**
+ * Server-Sent Events fan-out for the UI. `publish(type, data)` sends an event
+ * to every open stream; `stream` is the Express handler that opens one. The UI
+ * uses these as hints to refetch, so events carry little more than what
+ * changed: `mappings`, `history` and `sync` (the run itself, for progress).
+ */
+export const createLiveUpdates = ({ heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS } = {}) => {
+  const clients = new Set();
+
+  const write = (res, type, data) => res.write(`event: ${type}\ndata: ${JSON.stringify(data ?? null)}\n\n`);
+
+  const publish = (type, data) => {
+    clients.forEach(res => {
+      try {
+        write(res, type, data);
+      } catch (error) {
+        console.error('Failed to push live update:', error.message);
+      }
+    });
+  };
+
+  // `initialEvents` ([[type, data]]) are sent to the new stream straight away
+  const stream = (req, res, initialEvents = []) => {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.flushHeaders();
+
+    initialEvents.forEach(([type, data]) => write(res, type, data));
+    clients.add(res);
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), heartbeatIntervalMs);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      clients.delete(res);
+    });
+  };
+
+  return { publish, stream };
+};
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+const DEFAULT_KEEP = 50;
+// mappings-<ISO timestamp with : and . as ->-<random>; sorts chronologically
+const BACKUP_ID_PATTERN = /^mappings-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z-[0-9a-f]{4}$/;
+
+// Write to a temporary file and rename it over the target, so readers never
+// see a half-written file
+const writeFileAtomic = (file, content) => {
+  const tempFile = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, content);
+  fs.renameSync(tempFile, file);
+};
+
+/**
+ * Timestamped snapshots of the user mappings, one JSON file each in `dir`,
+ * taken before every change so any earlier state can be restored. Only the
+ * newest `keep` snapshots are kept.
+ */
+export const createMappingBackups = ({ dir, keep = DEFAULT_KEEP }) => {
+  const fileFor = (id) => path.join(dir, `${id}.json`);
+
+  const ids = () => {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    return fs.readdirSync(dir)
+      .map(name => name.replace(/\.json$/, ''))
+      .filter(id => BACKUP_ID_PATTERN.test(id))
+      .sort()
+      .reverse();
+  };
+
+  const prune = () => {
+    ids().slice(keep).forEach(id => {
+      try {
+        fs.unlinkSync(fileFor(id));
+      } catch (error) {
+        console.error(`Failed to remove old backup ${id}:`, error.message);
+      }
+    });
+  };
+
+  // `reason` says what was about to change, e.g. "sync of C0123"
+  const save = (mappings, reason) => {
+    fs.mkdirSync(dir, { recursive: true });
+    const createdAt = new Date().toISOString();
+    const id = `mappings-${createdAt.replace(/[:.]/g, '-')}-${crypto.randomBytes(2).toString('hex')}`;
+    writeFileAtomic(fileFor(id), JSON.stringify({ createdAt, reason, count: mappings.length, mappings }, null, 2));
+    prune();
+    return id;
+  };
+
+  const readBackup = (id) => {
+    if (!BACKUP_ID_PATTERN.test(id) || !fs.existsSync(fileFor(id))) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(fileFor(id), 'utf8'));
+  };
+
+  // Newest first, without the mappings themselves
+  const list = () => ids().flatMap(id => {
+    try {
+      const { createdAt, reason, count } = readBackup(id);
+      return [{ id, createdAt, reason, count }];
+    } catch (error) {
+      console.error(`Skipping unreadable backup ${id}:`, error.message);
+      return [];
+    }
+  });
+
+  // The mappings in a snapshot, or null if there is no such snapshot
+  const read = (id) => readBackup(id)?.mappings ?? null;
+
+  // The newest snapshot that can still be read, for recovering at startup
+  const latest = () => {
+    for (const id of ids()) {
+      try {
+        return { id, mappings: readBackup(id).mappings };
+      } catch (error) {
+        console.error(`Skipping unreadable backup ${id}:`, error.message);
+      }
+    }
+    return null;
+  };
+
+  return { save, list, read, latest };
+};
@@ -0,0 +1,95 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createMappingBackups } from './mappingBackups.js';
+import { CorruptMappingsError, createMappingStore } from './mappingStores/index.js';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mapping-backups-'));
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+let dirCount = 0;
+const makeDir = () => path.join(root, `case-${++dirCount}`);
+
+// Backup IDs are timestamps to the millisecond
+const tick = () => new Promise(resolve => setTimeout(resolve, 3));
+
+const ann = { userId: 'U01ANN', realName: 'Ann Example', slackTag: '@ann', channels: ['C1'], status: 'active' };
+const bob = { userId: 'U02BOB', realName: 'Bob Example', slackTag: '@bob', channels: ['C1'], status: 'active' };
+
+describe('mapping backups', () => {
+  it('lists snapshots newest first and reads them back', async () => {
+    const backups = createMappingBackups({ dir: makeDir() });
+    const first = backups.save([ann], 'sync of C1');
+    await tick();
+    const second = backups.save([ann, bob], 'edit of U02BOB');
+
+    assert.deepEqual(backups.list().map(({ id, reason, count }) => ({ id, reason, count })), [
+      { id: second, reason: 'edit of U02BOB', count: 2 },
+      { id: first, reason: 'sync of C1', count: 1 }
+    ]);
+    assert.deepEqual(backups.read(first), [ann]);
+    assert.deepEqual(backups.latest(), { id: second, mappings: [ann, bob] });
+  });
+
+  it('keeps only the newest snapshots', async () => {
+    const backups = createMappingBackups({ dir: makeDir(), keep: 2 });
+    const ids = [];
+    for (const mappings of [[], [ann], [ann, bob]]) {
+      ids.push(backups.save(mappings, 'change'));
+      await tick();
+    }
+
+    assert.deepEqual(backups.list().map(backup => backup.id), [ids[2], ids[1]]);
+    assert.equal(backups.read(ids[0]), null);
+  });
+
+  it('refuses IDs that are not backups', () => {
+    const backups = createMappingBackups({ dir: makeDir() });
+    backups.save([ann], 'change');
+
+    assert.equal(backups.read('../user_mappings'), null);
+    assert.equal(backups.read('mappings-2024-01-01T00-00-00-000Z-abcd'), null);
+  });
+
+  it('skips unreadable snapshots when looking for the latest', async () => {
+    const dir = makeDir();
+    const backups = createMappingBackups({ dir });
+    const good = backups.save([ann], 'change');
+    await tick();
+    const broken = backups.save([ann, bob], 'change');
+    fs.writeFileSync(path.join(dir, `${broken}.json`), '{ not json');
+
+    assert.deepEqual(backups.latest(), { id: good, mappings: [ann] });
+    assert.deepEqual(backups.list().map(backup => backup.id), [good]);
+  });
+});
+
+describe('json mapping store with a corrupt file', () => {
+  it('refuses to start without a way to recover', async () => {
+    const dir = makeDir();
+    fs.mkdirSync(dir);
+    const file = path.join(dir, 'user_mappings.json');
+    fs.writeFileSync(file, '[{ "userId": ');
+
+    const store = createMappingStore({ type: 'json', file });
+    await assert.rejects(store.initialize(), CorruptMappingsError);
+    assert.equal(fs.readFileSync(file, 'utf8'), '[{ "userId": ');
+  });
+
+  it('moves the file aside and starts from what recover returns', async () => {
+    const dir = makeDir();
+    fs.mkdirSync(dir);
+    const file = path.join(dir, 'user_mappings.json');
+    fs.writeFileSync(file, '[{ "userId": ');
+
+    const store = createMappingStore({ type: 'json', file, recover: () => [ann] });
+    await store.initialize();
+
+    assert.deepEqual(await store.list(), [ann]);
+    const kept = fs.readdirSync(dir).filter(name => name.startsWith('user_mappings.json.corrupt-'));
+    assert.equal(kept.length, 1);
+    assert.equal(fs.readFileSync(path.join(dir, kept[0]), 'utf8'), '[{ "userId": ');
+  });
+});
@@ -0,0 +1,41 @@
+import { createJsonMappingStore } from './jsonStore.js';
+export { CorruptMappingsError } from './jsonStore.js';
+import { createSqliteMappingStore } from './sqliteStore.js';
+import { createPostgresMappingStore } from './postgresStore.js';
+
+/**
+ * Where user mappings are kept, chosen with MAPPING_STORE:
+ * - sqlite (default): the server's SQLite database
+ * - json: a single JSON file (MAPPINGS_FILE), nothing to set up
+ * - postgres: a shared database at DATABASE_URL
+ *
+ * Every store implements the same asynchronous interface:
+ * - initialize(): create the file or table if needed
+ * - list(): all mappings, in the order they were saved
+ * - replaceAll(mappings): store exactly `mappings`
+ * - update(change): atomically replace the list with change(currentList);
+ *   `change` may return null to leave it alone. Resolves to the new list
+ *   (or null).
+ * - close(): release connections
+ *
+ * With the json store, `recover()` supplies the mappings to start from if the
+ * file is corrupt; without it the server refuses to start.
+ *
+ * Mappings are { userId, realName, slackTag, addedOn?, customFields?,
+ * channels, status, leftOn? }.
+ */
+export const createMappingStore = ({ type = 'sqlite', db, file, recover, connectionString }) => {
+  switch (type) {
+    case 'sqlite':
+      return createSqliteMappingStore({ db });
+    case 'json':
+      return createJsonMappingStore({ file, recover });
+    case 'postgres':
+      if (!connectionString) {
+        throw new Error('MAPPING_STORE=postgres needs DATABASE_URL');
+      }
+      return createPostgresMappingStore({ connectionString });
+    default:
+      throw new Error(`Unknown MAPPING_STORE "${type}"; use sqlite, json or postgres`);
+  }
+};
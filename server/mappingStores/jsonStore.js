@@ -0,0 +1,79 @@
+import fs from 'fs';
+
+export class CorruptMappingsError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'CorruptMappingsError';
+  }
+}
+
+/**
+ * Zero-setup mapping store: the whole list in one JSON file, as the server
+ * kept it before databases were supported. Changes are serialized within this
+ * process and written to a temporary file that replaces the original, so a
+ * crash mid-write can't leave a truncated file. Only one server process may
+ * use the file at a time.
+ *
+ * A file that can't be parsed stops `initialize` with a CorruptMappingsError.
+ * If `recover` is given it is asked for the mappings to start from instead;
+ * the unreadable file is kept next to the original, never overwritten.
+ */
+export const createJsonMappingStore = ({ file, recover }) => {
+  // Tail of the queue of pending changes; each waits for the previous one
+  let pending = Promise.resolve();
+
+  const read = () => {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      // Refuse to carry on (and later overwrite) rather than treat it as empty
+      throw new CorruptMappingsError(`Cannot read mappings from ${file}: ${error.message}`);
+    }
+  };
+
+  const write = (mappings) => {
+    const tempFile = `${file}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(mappings, null, 2));
+    fs.renameSync(tempFile, file);
+  };
+
+  const serialize = (task) => {
+    const result = pending.then(task);
+    pending = result.catch(() => {});
+    return result;
+  };
+
+  const initialize = async () => {
+    if (!fs.existsSync(file)) {
+      console.log(`Creating new mappings file at: ${file}`);
+      write([]);
+    }
+    try {
+      read();
+    } catch (error) {
+      if (!(error instanceof CorruptMappingsError) || !recover) {
+        throw error;
+      }
+      const corruptFile = `${file}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+      fs.renameSync(file, corruptFile);
+      console.error(`${error.message}; moved it to ${corruptFile}`);
+      write(recover());
+    }
+  };
+
+  const list = async () => read();
+
+  const replaceAll = (mappings) => serialize(() => write(mappings));
+
+  const update = (change) => serialize(() => {
+    const next = change(read());
+    if (next) {
+      write(next);
+    }
+    return next;
+  });
+
+  const close = async () => {};
+
+  return { initialize, list, replaceAll, update, close };
+};
@@ -0,0 +1,143 @@
+import { after, afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { openDatabase } from '../database.js';
+import { createMappingStore } from './index.js';
+import { mappingVersion } from '../mappingVersion.js';
+
+// Every store must behave the same; each suite below runs these checks
+// against a fresh store. Postgres is only tested with DATABASE_URL set, and
+// its user_mappings table is emptied, so point it at a scratch database.
+
+const ann = {
+  userId: 'U01ANN',
+  realName: 'Ann Example',
+  slackTag: '@ann',
+  addedOn: '2024-01-15',
+  customFields: { location: 'Berlin', team: 'Platform' },
+  channels: ['C01GENERAL', 'C02RANDOM'],
+  status: 'active'
+};
+
+const bob = {
+  userId: 'U02BOB',
+  realName: 'Bob Example',
+  slackTag: '@bob',
+  channels: [],
+  status: 'left',
+  leftOn: '2024-03-01'
+};
+
+const cy = {
+  userId: 'U03CY',
+  realName: 'Cy Example',
+  slackTag: '@cy',
+  channels: ['C01GENERAL'],
+  status: 'deactivated'
+};
+
+const conformance = (open) => {
+  let store;
+  let cleanUp;
+
+  beforeEach(async () => {
+    ({ store, cleanUp } = await open());
+    await store.initialize();
+    await store.replaceAll([]);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await cleanUp();
+  });
+
+  it('starts empty', async () => {
+    assert.deepEqual(await store.list(), []);
+  });
+
+  it('round-trips every field', async () => {
+    await store.replaceAll([ann, bob, cy]);
+    assert.deepEqual(await store.list(), [ann, bob, cy]);
+  });
+
+  it('keeps the version of what was saved', async () => {
+    await store.replaceAll([ann, bob, cy]);
+    assert.deepEqual((await store.list()).map(mappingVersion), [ann, bob, cy].map(mappingVersion));
+  });
+
+  it('lists mappings in the order they were saved', async () => {
+    await store.replaceAll([cy, ann, bob]);
+    assert.deepEqual((await store.list()).map(m => m.userId), [cy.userId, ann.userId, bob.userId]);
+
+    await store.replaceAll([bob, cy, ann]);
+    assert.deepEqual((await store.list()).map(m => m.userId), [bob.userId, cy.userId, ann.userId]);
+  });
+
+  it('replaceAll drops mappings that are not in the new list', async () => {
+    await store.replaceAll([ann, bob]);
+    await store.replaceAll([cy]);
+    assert.deepEqual(await store.list(), [cy]);
+  });
+
+  it('update stores what the change returns', async () => {
+    await store.replaceAll([ann]);
+    const next = await store.update(current => [
+      ...current.map(m => ({ ...m, customFields: { ...m.customFields, team: 'Data' } })),
+      bob
+    ]);
+
+    const expected = [{ ...ann, customFields: { ...ann.customFields, team: 'Data' } }, bob];
+    assert.deepEqual(next, expected);
+    assert.deepEqual(await store.list(), expected);
+  });
+
+  it('update leaves the list alone when the change returns null', async () => {
+    await store.replaceAll([ann, bob]);
+    const next = await store.update(() => null);
+
+    assert.equal(next, null);
+    assert.deepEqual(await store.list(), [ann, bob]);
+  });
+
+  it('applies concurrent updates one after another', async () => {
+    await store.replaceAll([]);
+    await Promise.all([ann, bob, cy].map(mapping => store.update(current => [...current, mapping])));
+
+    const ids = (await store.list()).map(m => m.userId).sort();
+    assert.deepEqual(ids, [ann.userId, bob.userId, cy.userId].sort());
+  });
+};
+
+const tempDirs = [];
+const makeTempDir = () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mapping-store-'));
+  tempDirs.push(dir);
+  return dir;
+};
+
+after(() => {
+  tempDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+describe('json mapping store', () => {
+  conformance(async () => {
+    const file = path.join(makeTempDir(), 'user_mappings.json');
+    return { store: createMappingStore({ type: 'json', file }), cleanUp: async () => {} };
+  });
+});
+
+describe('sqlite mapping store', () => {
+  conformance(async () => {
+    const db = openDatabase({ file: path.join(makeTempDir(), 'slack_user_mapper.db') });
+    return { store: createMappingStore({ type: 'sqlite', db }), cleanUp: async () => db.close() };
+  });
+});
+
+describe('postgres mapping store', { skip: !process.env.DATABASE_URL && 'DATABASE_URL is not set' }, () => {
+  conformance(async () => ({
+    store: createMappingStore({ type: 'postgres', connectionString: process.env.DATABASE_URL }),
+    cleanUp: async () => {}
+  }));
+});
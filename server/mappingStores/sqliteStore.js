@@ -0,0 +1,73 @@
+// Row <-> API shape; optional fields are left out rather than sent as null
+const toMapping = (row, channels) => ({
+  realName: row.real_name,
+  slackTag: row.slack_tag,
+  userId: row.user_id,
+  ...(row.added_on ? { addedOn: row.added_on } : {}),
+  ...(row.custom_fields ? { customFields: JSON.parse(row.custom_fields) } : {}),
+  channels,
+  status: row.status,
+  ...(row.left_on ? { leftOn: row.left_on } : {})
+});
+
+export const listMappingsSync = (db) => {
+  const channelsByUser = new Map();
+  db.prepare('SELECT user_id, channel_id FROM mapping_channels ORDER BY rowid').all()
+    .forEach(({ user_id: userId, channel_id: channelId }) => {
+      channelsByUser.set(userId, [...(channelsByUser.get(userId) || []), channelId]);
+    });
+  return db.prepare('SELECT * FROM mappings ORDER BY rowid').all()
+    .map(row => toMapping(row, channelsByUser.get(row.user_id) || []));
+};
+
+// Replaces every mapping; callers run it inside a transaction. Also used by
+// the JSON import, which needs to stay synchronous.
+export const replaceMappingsSync = (db, mappings) => {
+  const insertMapping = db.prepare(`
+    INSERT INTO mappings (user_id, real_name, slack_tag, added_on, status, left_on, custom_fields)
+    VALUES (@userId, @realName, @slackTag, @addedOn, @status, @leftOn, @customFields)
+  `);
+  const insertChannel = db.prepare('INSERT OR IGNORE INTO mapping_channels (user_id, channel_id) VALUES (?, ?)');
+
+  db.prepare('DELETE FROM mappings').run();
+  mappings.forEach(mapping => {
+    insertMapping.run({
+      userId: mapping.userId,
+      realName: mapping.realName,
+      slackTag: mapping.slackTag,
+      addedOn: mapping.addedOn ?? null,
+      status: mapping.status || 'active',
+      leftOn: mapping.leftOn ?? null,
+      customFields: mapping.customFields ? JSON.stringify(mapping.customFields) : null
+    });
+    (mapping.channels || []).forEach(channelId => insertChannel.run(mapping.userId, channelId));
+  });
+};
+
+/**
+ * Mapping store backed by the server's SQLite database (see migrations.js):
+ * one row per Slack user plus the channels they belong to. `update` holds
+ * SQLite's write lock for the whole read-modify-write.
+ */
+export const createSqliteMappingStore = ({ db }) => {
+  const initialize = async () => {};
+
+  const list = async () => listMappingsSync(db);
+
+  const replaceAll = async (mappings) => {
+    db.transaction(() => replaceMappingsSync(db, mappings))();
+  };
+
+  const update = async (change) => db.transaction(() => {
+    const next = change(listMappingsSync(db));
+    if (next) {
+      replaceMappingsSync(db, next);
+    }
+    return next;
+  }).immediate();
+
+  // The database is shared with the rest of the server, which closes it
+  const close = async () => {};
+
+  return { initialize, list, replaceAll, update, close };
+};
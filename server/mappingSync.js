@@ -0,0 +1,254 @@
+import crypto from 'crypto';
+
+const DEFAULT_CONCURRENCY = 5;
+// Channels with more members than this are resolved by paging users.list once
+// instead of looking up each member
+const DEFAULT_BULK_THRESHOLD = 100;
+
+const describeUser = (mapping) => ({ userId: mapping.userId, realName: mapping.realName });
+
+// Mappings without a status predate departure tracking and count as active
+const isActive = (mapping) => !mapping?.status || mapping.status === 'active';
+
+// Who joined, left (or was deactivated), or changed their name or handle
+// between two mapping lists
+const diffMappings = (before, after) => {
+  const beforeById = new Map(before.map(m => [m.userId, m]));
+  const afterById = new Map(after.map(m => [m.userId, m]));
+
+  return {
+    joined: after
+      .filter(m => isActive(m) && !isActive(beforeById.get(m.userId) ?? { status: 'new' }))
+      .map(describeUser),
+    left: before
+      .filter(m => isActive(m) && !isActive(afterById.get(m.userId) ?? { status: 'left' }))
+      .map(m => ({ ...describeUser(m), status: afterById.get(m.userId)?.status || 'left' })),
+    updated: after
+      .filter(m => {
+        const previous = beforeById.get(m.userId);
+        return previous && (previous.realName !== m.realName || previous.slackTag !== m.slackTag);
+      })
+      .map(m => {
+        const previous = beforeById.get(m.userId);
+        return {
+          ...describeUser(m),
+          before: { realName: previous.realName, slackTag: previous.slackTag },
+          after: { realName: m.realName, slackTag: m.slackTag }
+        };
+      })
+  };
+};
+
+// Runs `worker` over `items` with at most `limit` calls in flight
+const forEachWithConcurrency = async (items, limit, worker) => {
+  let next = 0;
+  const runWorker = async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runWorker));
+};
+
+/**
+ * Refreshes user mappings from Slack entirely on the server: for each channel
+ * it lists the members, resolves their profiles and saves the merged result,
+ * so a sync keeps going if the browser goes away. One run at a time; callers
+ * follow progress by polling `getRun` or subscribing to updates. Each run
+ * records what changed (`changes`) and is handed to `onFinished` when done.
+ * `onMembersJoined(channelId, mappings)` gets the members new to a channel,
+ * except on its first sync when everyone would look new.
+ * `lookUpFreshProfile` bypasses any profile cache; it is used for previous
+ * members who are no longer listed, to tell deactivations from departures.
+ */
+export const createMappingSync = ({
+  listMembers,
+  lookUpProfile,
+  lookUpFreshProfile = lookUpProfile,
+  listWorkspaceUsers,
+  readMappings,
+  saveChannelMappings,
+  onFinished = () => {},
+  onMembersJoined = () => {},
+  concurrency = DEFAULT_CONCURRENCY,
+  bulkThreshold = DEFAULT_BULK_THRESHOLD
+}) => {
+  let currentRun = null;
+  const listeners = new Set();
+
+  const snapshot = () => currentRun && structuredClone(currentRun);
+
+  const notify = () => {
+    const run = snapshot();
+    listeners.forEach(listener => {
+      try {
+        listener(run);
+      } catch (error) {
+        console.error('Sync listener failed:', error.message);
+      }
+    });
+  };
+
+  // Members whose lookup fails are left out of the result
+  const lookUpIndividually = async (members, onResolved, lookUp = lookUpProfile) => {
+    const profiles = new Map();
+    await forEachWithConcurrency(members, concurrency, async (userId) => {
+      try {
+        profiles.set(userId, await lookUp(userId));
+      } catch (error) {
+        console.error(`Error looking up user ${userId}:`, error.message);
+      }
+      onResolved(profiles.size);
+    });
+    return profiles;
+  };
+
+  const lookUpInBulk = async (members, onResolved) => {
+    const memberIds = new Set(members);
+    const profiles = new Map();
+    await listWorkspaceUsers(page => {
+      page.filter(user => memberIds.has(user.id)).forEach(user => profiles.set(user.id, user));
+      onResolved(profiles.size);
+    });
+    return profiles;
+  };
+
+  const syncChannel = async (channel) => {
+    const members = await listMembers(channel.id);
+    currentRun.total = members.length;
+    currentRun.done = 0;
+    notify();
+
+    const onResolved = (done) => {
+      currentRun.done = done;
+      notify();
+    };
+    const profiles = members.length > bulkThreshold
+      ? await lookUpInBulk(members, onResolved)
+      : await lookUpIndividually(members, onResolved);
+
+    const existing = await readMappings();
+    const existingById = new Map(existing.map(m => [m.userId, m]));
+    const today = new Date().toISOString().split('T')[0];
+
+    // Tell deactivated accounts apart from people who just left the channel.
+    // Slack usually drops deactivated users from the member list, so anyone
+    // who was here last time and is missing now is looked up too.
+    const memberIds = new Set(members);
+    const missingIds = existing
+      .filter(m => isActive(m) && (m.channels || [channel.id]).includes(channel.id) && !memberIds.has(m.userId))
+      .map(m => m.userId);
+    const missingProfiles = await lookUpIndividually(missingIds, () => {}, lookUpFreshProfile);
+    const deactivatedIds = [...profiles.values(), ...missingProfiles.values()]
+      .filter(user => user?.deleted)
+      .map(user => user.id);
+
+    const mappings = members
+      .map(userId => profiles.get(userId))
+      .filter(user => user && !user.deleted && !user.is_bot && user.profile?.real_name)
+      .map(user => ({
+        realName: user.profile.real_name,
+        slackTag: `@${user.name}`,
+        userId: user.id,
+        addedOn: existingById.get(user.id)?.addedOn || today,
+        channels: [channel.id]
+      }));
+
+    // Membership comes from the member list, not from whose profile could be
+    // fetched: current members without a usable profile keep their mapping
+    // as it is rather than being marked as departed
+    const mappedIds = new Set(mappings.map(m => m.userId));
+    const unchangedIds = members.filter(userId => !mappedIds.has(userId) && !profiles.get(userId)?.deleted);
+
+    await saveChannelMappings(channel.id, mappings, { deactivatedUserIds: deactivatedIds, unchangedUserIds: unchangedIds });
+
+    const isMember = (mapping) => isActive(mapping) && (mapping.channels || [channel.id]).includes(channel.id);
+    if (existing.some(isMember)) {
+      const joined = mappings.filter(m => !existingById.has(m.userId) || !isMember(existingById.get(m.userId)));
+      if (joined.length > 0) {
+        Promise.resolve(onMembersJoined(channel.id, joined))
+          .catch(error => console.error(`Error handling new members of ${channel.id}:`, error.message));
+      }
+    }
+    return mappings.length;
+  };
+
+  const execute = async (channels) => {
+    const before = await readMappings();
+
+    for (const channel of currentRun.channels) {
+      currentRun.currentChannelId = channel.id;
+      channel.status = 'running';
+      notify();
+
+      try {
+        channel.userCount = await syncChannel(channel);
+        channel.status = 'completed';
+      } catch (error) {
+        console.error(`Error syncing channel ${channel.id}:`, error.message);
+        channel.status = 'failed';
+        channel.error = error.message;
+      }
+    }
+
+    const after = await readMappings();
+    currentRun.changes = diffMappings(before, after);
+    currentRun.count = after.length;
+    currentRun.status = channels.length > 0 && currentRun.channels.every(c => c.status === 'failed')
+      ? 'failed'
+      : 'completed';
+  };
+
+  const isRunning = () => currentRun?.status === 'running';
+
+  // Starts syncing `channels` ([{ id, name }]); returns null if a run is already going.
+  // `trigger` is 'manual' or 'scheduled'; `startedBy` the username, if any.
+  const start = (channels, { trigger = 'manual', startedBy } = {}) => {
+    if (isRunning()) return null;
+
+    currentRun = {
+      id: crypto.randomUUID(),
+      trigger,
+      startedBy,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      channels: channels.map(({ id, name }) => ({ id, name, status: 'pending' })),
+      currentChannelId: null,
+      done: 0,
+      total: 0,
+      changes: { joined: [], left: [], updated: [] }
+    };
+
+    execute(channels)
+      .catch(error => {
+        console.error('Sync failed:', error);
+        currentRun.status = 'failed';
+        currentRun.error = error.message;
+      })
+      .finally(() => {
+        currentRun.currentChannelId = null;
+        currentRun.finishedAt = new Date().toISOString();
+        const { joined, left, updated } = currentRun.changes;
+        console.log(`Sync ${currentRun.id} ${currentRun.status}: ${joined.length} joined, ${left.length} left, ${updated.length} updated`);
+        notify();
+        try {
+          onFinished(snapshot());
+        } catch (error) {
+          console.error('Failed to record sync run:', error.message);
+        }
+      });
+
+    return snapshot();
+  };
+
+  // The latest run (running or finished), or null if none has happened yet
+  const getRun = () => snapshot();
+
+  // `listener` receives a snapshot of the run on every change
+  const subscribe = (listener) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  };
+
+  return { start, getRun, isRunning, subscribe };
+};
@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+
+// The fields that make up a mapping's state, in a fixed order and with the
+// stores' defaults filled in, so the same mapping hashes the same however a
+// store orders keys or leaves out empty fields
+const canonicalMapping = (mapping) => [
+  mapping.userId,
+  mapping.realName,
+  mapping.slackTag,
+  mapping.addedOn ?? null,
+  mapping.customFields ? Object.keys(mapping.customFields).sort().map(name => [name, mapping.customFields[name]]) : null,
+  [...new Set(mapping.channels || [])],
+  mapping.status || 'active',
+  mapping.leftOn ?? null
+];
+
+// Identifies one state of a mapping, whichever store it lives in: a hash of
+// its contents, so any change gives a new version. Sent as the ETag of the
+// single-mapping routes and as `version` in listings.
+export const mappingVersion = (mapping) =>
+  crypto.createHash('sha1').update(JSON.stringify(canonicalMapping(mapping))).digest('hex').slice(0, 16);
+
+export const withVersion = (mapping) => ({ ...mapping, version: mappingVersion(mapping) });
+
+// The version an If-Match header asks for: undefined without the header, '*'
+// for any existing mapping
+export const parseIfMatch = (header) => {
+  if (!header) {
+    return undefined;
+  }
+  return header.trim() === '*' ? '*' : header.trim().replace(/^W\//, '').replace(/^"|"$/g, '');
+};
+
+// Whether a write expecting `expected` (from parseIfMatch) may replace `current`
+export const versionMatches = (expected, current) => {
+  if (expected === undefined) {
+    return true;
+  }
+  if (!current) {
+    return false;
+  }
+  return expected === '*' || expected === mappingVersion(current);
+};
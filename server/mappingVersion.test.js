@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mappingVersion, parseIfMatch, versionMatches, withVersion } from './mappingVersion.js';
+
+const ann = {
+  userId: 'U01ANN',
+  realName: 'Ann Example',
+  slackTag: '@ann',
+  addedOn: '2024-01-15',
+  customFields: { location: 'Berlin', team: 'Platform' },
+  channels: ['C01GENERAL', 'C02RANDOM'],
+  status: 'active'
+};
+
+describe('mapping versions', () => {
+  it('ignores key order, custom field order and filled-in defaults', () => {
+    const reordered = {
+      status: 'active',
+      channels: ['C01GENERAL', 'C02RANDOM', 'C01GENERAL'],
+      customFields: { team: 'Platform', location: 'Berlin' },
+      addedOn: '2024-01-15',
+      slackTag: '@ann',
+      realName: 'Ann Example',
+      userId: 'U01ANN',
+      leftOn: null
+    };
+    assert.equal(mappingVersion(reordered), mappingVersion(ann));
+
+    const { status, ...withoutStatus } = ann;
+    assert.equal(status, 'active');
+    assert.equal(mappingVersion(withoutStatus), mappingVersion(ann));
+  });
+
+  it('changes when any field changes', () => {
+    const version = mappingVersion(ann);
+    for (const change of [
+      { realName: 'Ann Other' },
+      { slackTag: '@ann2' },
+      { customFields: { ...ann.customFields, team: 'Data' } },
+      { channels: ['C01GENERAL'] },
+      { status: 'left', leftOn: '2024-03-01' }
+    ]) {
+      assert.notEqual(mappingVersion({ ...ann, ...change }), version, JSON.stringify(change));
+    }
+  });
+
+  it('is added to a mapping by withVersion', () => {
+    assert.deepEqual(withVersion(ann), { ...ann, version: mappingVersion(ann) });
+  });
+});
+
+describe('If-Match', () => {
+  it('parses quoted, weak and wildcard headers', () => {
+    assert.equal(parseIfMatch(undefined), undefined);
+    assert.equal(parseIfMatch(''), undefined);
+    assert.equal(parseIfMatch('"abc123"'), 'abc123');
+    assert.equal(parseIfMatch(' W/"abc123" '), 'abc123');
+    assert.equal(parseIfMatch('abc123'), 'abc123');
+    assert.equal(parseIfMatch(' * '), '*');
+  });
+
+  it('matches only the current version, or any existing mapping for *', () => {
+    const version = mappingVersion(ann);
+    assert.equal(versionMatches(undefined, ann), true);
+    assert.equal(versionMatches(undefined, null), true);
+    assert.equal(versionMatches(version, ann), true);
+    assert.equal(versionMatches(version, { ...ann, slackTag: '@ann2' }), false);
+    assert.equal(versionMatches('*', ann), true);
+    assert.equal(versionMatches('*', null), false);
+    assert.equal(versionMatches(version, null), false);
+  });
+});
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+
+// API field -> column, for everything except `edits`, which has its own table
+const COLUMNS = {
+  id: 'id',
+  userId: 'user_id',
+  templateId: 'template_id',
+  templateVersion: 'template_version',
+  text: 'text',
+  status: 'status',
+  sentAt: 'sent_at',
+  messageTs: 'message_ts',
+  channel: 'channel',
+  error: 'error',
+  jobId: 'job_id',
+  postAt: 'post_at',
+  scheduledMessageId: 'scheduled_message_id',
+  editedAt: 'edited_at',
+  deletedAt: 'deleted_at',
+  cancelledAt: 'cancelled_at',
+  welcomeChannelId: 'welcome_channel_id',
+  sourceText: 'source_text'
+};
+
+// Unset columns are left out, as they were in the old JSON entries
+const toEntry = (row, edits) => {
+  const entry = {};
+  Object.entries(COLUMNS).forEach(([field, column]) => {
+    if (row[column] !== null && row[column] !== undefined) {
+      entry[field] = row[column];
+    }
+  });
+  return edits.length > 0 ? { ...entry, edits } : entry;
+};
+
+/**
+ * Audit log of every DM the server has attempted, successful or not, stored
+ * in SQLite. Entries keep the Slack `ts` and DM channel so a message can later
+ * be edited or deleted; those changes are recorded on the entry (earlier texts
+ * in `edits`) rather than removing it. `onChange` is called after every write.
+ */
+export const createMessageHistory = ({ db, onChange = () => {} }) => {
+  const selectEdits = db.prepare(
+    'SELECT text, replaced_at AS replacedAt FROM message_edits WHERE message_id = ? ORDER BY rowid'
+  );
+  const insertEdit = db.prepare('INSERT INTO message_edits (message_id, text, replaced_at) VALUES (?, ?, ?)');
+
+  const load = (row) => toEntry(row, selectEdits.all(row.id));
+
+  // Stores an entry as given, `id` and `edits` included (also used by the JSON import)
+  const insert = (entry) => {
+    const fields = Object.keys(COLUMNS).filter(field => entry[field] !== undefined);
+    db.prepare(`
+      INSERT INTO message_history (${fields.map(field => COLUMNS[field]).join(', ')})
+      VALUES (${fields.map(field => `@${field}`).join(', ')})
+    `).run(Object.fromEntries(fields.map(field => [field, entry[field]])));
+    (entry.edits || []).forEach(edit => insertEdit.run(entry.id, edit.text, edit.replacedAt));
+  };
+
+  // `template` is the { templateId, version } the text was rendered from, if
+  // any, and `sourceText` the text with its placeholders still in place;
+  // `welcomeChannelId` marks automatic welcomes
+  const record = ({
+    userId, text, sourceText, template, status, messageTs, channel, error, jobId, postAt, scheduledMessageId, welcomeChannelId
+  }) => {
+    const entry = {
+      id: crypto.randomUUID(),
+      userId,
+      templateId: template?.templateId,
+      templateVersion: template?.version,
+      text,
+      sourceText,
+      status,
+      sentAt: new Date().toISOString(),
+      messageTs,
+      channel,
+      error,
+      jobId,
+      postAt,
+      scheduledMessageId,
+      welcomeChannelId
+    };
+
+    try {
+      db.transaction(insert)(entry);
+      onChange();
+    } catch (e) {
+      // Never fail a send because the audit log couldn't be written
+      console.error('Failed to record message history:', e.message);
+    }
+
+    return entry;
+  };
+
+  const get = (id) => {
+    const row = db.prepare('SELECT * FROM message_history WHERE id = ?').get(id);
+    return row ? load(row) : null;
+  };
+
+  // Applies `changes` to one entry and returns the updated entry (or null)
+  const update = (id, changes) => {
+    const updated = db.transaction(() => {
+      if (!get(id)) return null;
+
+      const fields = Object.keys(changes).filter(field => COLUMNS[field] && field !== 'id');
+      if (fields.length > 0) {
+        db.prepare(`UPDATE message_history SET ${fields.map(field => `${COLUMNS[field]} = @${field}`).join(', ')} WHERE id = @id`)
+          .run({ ...Object.fromEntries(fields.map(field => [field, changes[field] ?? null])), id });
+      }
+      if (changes.edits) {
+        db.prepare('DELETE FROM message_edits WHERE message_id = ?').run(id);
+        changes.edits.forEach(edit => insertEdit.run(id, edit.text, edit.replacedAt));
+      }
+      return get(id);
+    })();
+
+    if (updated) onChange();
+    return updated;
+  };
+
+  // Newest first, optionally narrowed to one recipient or status
+  const list = ({ userId, status } = {}) =>
+    db.prepare(`
+      SELECT * FROM message_history
+      WHERE (@userId IS NULL OR user_id = @userId) AND (@status IS NULL OR status = @status)
+      ORDER BY rowid DESC
+    `).all({ userId: userId ?? null, status: status ?? null }).map(load);
+
+  // Whether `userId` was welcomed by `channelId`'s rule: sent, scheduled, or
+  // sent and later deleted, but not failed or cancelled
+  const hasWelcome = (channelId, userId) => Boolean(db.prepare(`
+    SELECT 1 FROM message_history
+    WHERE welcome_channel_id = ? AND user_id = ? AND status IN ('sent', 'scheduled', 'deleted')
+    LIMIT 1
+  `).get(channelId, userId));
+
+  return { record, get, update, list, insert, hasWelcome };
+};
@@ -0,0 +1,100 @@
+// Schema changes for the SQLite store, applied in order. Each runs once, inside
+// a transaction; the database's user_version records how many have been
+// applied. Never edit a migration that has shipped; add a new one instead.
+export const migrations = [
+  {
+    name: 'initial schema',
+    up: `
+      CREATE TABLE meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+
+      CREATE TABLE mappings (
+        user_id TEXT PRIMARY KEY,
+        real_name TEXT NOT NULL,
+        slack_tag TEXT NOT NULL,
+        added_on TEXT,
+        status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'left', 'deactivated')),
+        left_on TEXT,
+        custom_fields TEXT
+      );
+
+      -- Registered channels a user is (or, for departed users, was last) in.
+      -- Not a foreign key: unregistering a channel keeps its members' records.
+      CREATE TABLE mapping_channels (
+        user_id TEXT NOT NULL REFERENCES mappings (user_id) ON DELETE CASCADE,
+        channel_id TEXT NOT NULL,
+        PRIMARY KEY (user_id, channel_id)
+      );
+
+      CREATE TABLE channels (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        added_at TEXT NOT NULL
+      );
+
+      CREATE TABLE templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        is_default INTEGER NOT NULL DEFAULT 0,
+        current_version INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE template_versions (
+        template_id TEXT NOT NULL REFERENCES templates (id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (template_id, version)
+      );
+
+      CREATE TABLE message_history (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        template_id TEXT,
+        template_version INTEGER,
+        text TEXT,
+        status TEXT NOT NULL,
+        sent_at TEXT NOT NULL,
+        message_ts TEXT,
+        channel TEXT,
+        error TEXT,
+        job_id TEXT,
+        post_at INTEGER,
+        scheduled_message_id TEXT,
+        edited_at TEXT,
+        deleted_at TEXT,
+        cancelled_at TEXT
+      );
+      CREATE INDEX message_history_user_id ON message_history (user_id);
+      CREATE INDEX message_history_status ON message_history (status);
+
+      -- Earlier texts of edited messages, oldest first
+      CREATE TABLE message_edits (
+        message_id TEXT NOT NULL REFERENCES message_history (id) ON DELETE CASCADE,
+        text TEXT NOT NULL,
+        replaced_at TEXT NOT NULL
+      );
+      CREATE INDEX message_edits_message_id ON message_edits (message_id);
+    `
+  },
+  {
+    name: 'welcome channel on message history',
+    up: `
+      -- Set on automatic welcome DMs: the channel whose rule sent them
+      ALTER TABLE message_history ADD COLUMN welcome_channel_id TEXT;
+      CREATE INDEX message_history_welcome ON message_history (welcome_channel_id, user_id);
+    `
+  },
+  {
+    name: 'source text on message history',
+    up: `
+      -- The text before placeholders were filled in, so a personalised send
+      -- can be edited as a whole and re-rendered for each recipient
+      ALTER TABLE message_history ADD COLUMN source_text TEXT;
+    `
+  }
+];
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import { SlackApiError } from './slackApi.js';
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+// Changes within this long of each other are written to the file together
+const SAVE_DELAY_MS = 2000;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Slack user profiles (the `user` object from users.info) cached in a JSON
+ * file for `ttlMs`, so refreshing a channel only asks Slack about members it
+ * hasn't seen recently. Concurrent lookups of the same user share one request,
+ * and rate-limited lookups wait out Slack's Retry-After before trying again.
+ * The file is rewritten at most once per `saveDelayMs`, not per lookup, so a
+ * large sync doesn't write it hundreds of times; `flush` writes pending
+ * changes straight away.
+ */
+export const createProfileCache = ({ cacheFile, fetchProfile, ttlMs = DEFAULT_TTL_MS, saveDelayMs = SAVE_DELAY_MS }) => {
+  const loadProfiles = () => {
+    if (!fs.existsSync(cacheFile)) {
+      return {};
+    }
+    try {
+      return JSON.parse(fs.readFileSync(cacheFile, 'utf8'));
+    } catch (error) {
+      console.error(`Failed to read profile cache from ${cacheFile}, starting empty:`, error.message);
+      return {};
+    }
+  };
+
+  const profiles = loadProfiles();
+  const inFlight = new Map();
+  let saveTimer = null;
+  // The write in progress, so writes never overlap
+  let saving = Promise.resolve();
+
+  const flush = () => {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+    saving = saving
+      .then(() => fs.promises.writeFile(cacheFile, JSON.stringify(profiles)))
+      .catch(error => console.error('Failed to persist profile cache:', error.message));
+    return saving;
+  };
+
+  const saveProfiles = () => {
+    if (!saveTimer) {
+      saveTimer = setTimeout(flush, saveDelayMs);
+      // A cache; losing the last few lookups on exit is fine
+      saveTimer.unref();
+    }
+  };
+
+  const fetchWithRetry = async (userId) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fetchProfile(userId);
+      } catch (error) {
+        if (!(error instanceof SlackApiError) || !error.isRateLimited || attempt > MAX_RATE_LIMIT_RETRIES) {
+          throw error;
+        }
+        await sleep((error.retryAfter || attempt * 2) * 1000);
+      }
+    }
+  };
+
+  // Store profiles fetched in bulk (e.g. from users.list)
+  const prime = (users) => {
+    const fetchedAt = new Date().toISOString();
+    users.forEach(user => { profiles[user.id] = { user, fetchedAt }; });
+    saveProfiles();
+  };
+
+  // Resolves to { user, cached } where `cached` says whether Slack was skipped.
+  // `fresh` always asks Slack, e.g. to notice an account deactivated since it
+  // was cached.
+  const get = async (userId, { fresh = false } = {}) => {
+    const entry = profiles[userId];
+    if (!fresh && entry && Date.now() - Date.parse(entry.fetchedAt) < ttlMs) {
+      return { user: entry.user, cached: true };
+    }
+
+    if (!inFlight.has(userId)) {
+      inFlight.set(userId, fetchWithRetry(userId)
+        .then(user => {
+          profiles[userId] = { user, fetchedAt: new Date().toISOString() };
+          saveProfiles();
+          return user;
+        })
+        .finally(() => inFlight.delete(userId)));
+    }
+
+    return { user: await inFlight.get(userId), cached: false };
+  };
+
+  return { get, prime, flush };
+};
@@ -0,0 +1,51 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createProfileCache } from './profileCache.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'profile-cache-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe('profile cache', () => {
+  it('writes the file once for a burst of lookups', async () => {
+    const cacheFile = path.join(dir, 'burst.json');
+    const writeFile = fs.promises.writeFile;
+    let writes = 0;
+    fs.promises.writeFile = async (...args) => {
+      writes++;
+      return writeFile(...args);
+    };
+
+    try {
+      const cache = createProfileCache({
+        cacheFile,
+        fetchProfile: async (userId) => ({ id: userId, real_name: `User ${userId}` }),
+        saveDelayMs: 20
+      });
+      await Promise.all(Array.from({ length: 50 }, (_, i) => cache.get(`U${i}`)));
+      cache.prime([{ id: 'U99', real_name: 'Primed' }]);
+      assert.equal(writes, 0);
+
+      await new Promise(resolve => setTimeout(resolve, 60));
+      assert.equal(writes, 1);
+      assert.equal(Object.keys(JSON.parse(fs.readFileSync(cacheFile, 'utf8'))).length, 51);
+    } finally {
+      fs.promises.writeFile = writeFile;
+    }
+  });
+
+  it('serves saved profiles from the file after a restart', async () => {
+    const cacheFile = path.join(dir, 'restart.json');
+    const first = createProfileCache({ cacheFile, fetchProfile: async (userId) => ({ id: userId }) });
+    await first.get('U1');
+    await first.flush();
+
+    const second = createProfileCache({
+      cacheFile,
+      fetchProfile: async () => assert.fail('should be served from the cache')
+    });
+    assert.deepEqual(await second.get('U1'), { user: { id: 'U1' }, cached: true });
+  });
+});
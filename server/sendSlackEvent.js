@@ -0,0 +1,34 @@
+import dotenv from 'dotenv';
+import axios from 'axios';
+import fs from 'fs';
+import { signSlackRequest } from './slackEvents.js';
+
+// Usage: npm run slack-event -- <payload.json> [url]
+// Signs a Slack Events API payload (e.g. one from server/fixtures) with
+// SLACK_SIGNING_SECRET, like Slack would, and posts it to the local server
+dotenv.config();
+const [payloadFile, url = `http://localhost:${process.env.PORT || 3001}/api/slack/events`] = process.argv.slice(2);
+
+if (!payloadFile || !process.env.SLACK_SIGNING_SECRET) {
+  console.error('Usage: npm run slack-event -- <payload.json> [url] (requires SLACK_SIGNING_SECRET)');
+  process.exit(1);
+}
+
+const rawBody = fs.readFileSync(payloadFile, 'utf8');
+const timestamp = Math.floor(Date.now() / 1000);
+
+try {
+  const response = await axios.post(url, rawBody, {
+    // Send the file byte for byte; axios would otherwise trim it and break the signature
+    transformRequest: [data => data],
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Slack-Request-Timestamp': timestamp,
+      'X-Slack-Signature': signSlackRequest(process.env.SLACK_SIGNING_SECRET, timestamp, rawBody)
+    }
+  });
+  console.log(response.status, JSON.stringify(response.data));
+} catch (error) {
+  console.error(error.response ? `${error.response.status} ${JSON.stringify(error.response.data)}` : error.message);
+  process.exit(1);
+}
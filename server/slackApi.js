@@ -0,0 +1,108 @@
+import axios from 'axios';
+
+const SLACK_API_URL = 'https://slack.com/api';
+
+// Slack error codes that are worth retrying after a short backoff
+const TRANSIENT_ERRORS = new Set([
+  'internal_error',
+  'fatal_error',
+  'service_unavailable',
+  'request_timeout',
+]);
+
+export class SlackApiError extends Error {
+  constructor(method, code, { status, retryAfter } = {}) {
+    super(`Slack API error (${method}): ${code}`);
+    this.name = 'SlackApiError';
+    this.method = method;
+    this.code = code;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+
+  get isRateLimited() {
+    return this.code === 'ratelimited';
+  }
+
+  get isTransient() {
+    return this.isRateLimited || TRANSIENT_ERRORS.has(this.code) || (this.status >= 500);
+  }
+}
+
+// Call a Slack Web API method, throwing SlackApiError on HTTP failures and
+// on `ok: false` responses
+const requestSlack = async (method, config, token) => {
+  let response;
+  try {
+    response = await axios({
+      url: `${SLACK_API_URL}/${method}`,
+      ...config,
+      headers: {
+        ...config.headers,
+        'Authorization': `Bearer ${token}`
+      }
+    });
+  } catch (error) {
+    if (error.response) {
+      const { status, headers } = error.response;
+      const retryAfter = Number(headers?.['retry-after']) || undefined;
+      throw new SlackApiError(method, status === 429 ? 'ratelimited' : `http_${status}`, { status, retryAfter });
+    }
+    throw error;
+  }
+
+  if (!response.data.ok) {
+    throw new SlackApiError(method, response.data.error || 'unknown_error', {
+      status: response.status,
+      retryAfter: Number(response.headers?.['retry-after']) || undefined
+    });
+  }
+
+  return response.data;
+};
+
+// POST a JSON body; used for methods that write (chat.*, conversations.open)
+export const callSlack = (method, body, token) =>
+  requestSlack(method, {
+    method: 'POST',
+    data: body,
+    headers: { 'Content-Type': 'application/json' }
+  }, token);
+
+// GET with query parameters; read methods like conversations.list don't accept JSON
+export const getSlack = (method, params, token) =>
+  requestSlack(method, { method: 'GET', params }, token);
+
+// Open (or reuse) the DM channel with a user and post a message into it
+export const sendDirectMessage = async (token, userId, messageText) => {
+  const openResponse = await callSlack('conversations.open', { users: userId }, token);
+  const dmChannelId = openResponse.channel.id;
+
+  const messageResponse = await callSlack('chat.postMessage', {
+    channel: dmChannelId,
+    text: messageText
+  }, token);
+
+  return {
+    messageTs: messageResponse.ts,
+    channel: dmChannelId
+  };
+};
+
+// Schedule a DM for `postAt` (Unix seconds); Slack delivers it, not us
+export const scheduleDirectMessage = async (token, userId, messageText, postAt) => {
+  const openResponse = await callSlack('conversations.open', { users: userId }, token);
+  const dmChannelId = openResponse.channel.id;
+
+  const scheduleResponse = await callSlack('chat.scheduleMessage', {
+    channel: dmChannelId,
+    text: messageText,
+    post_at: postAt
+  }, token);
+
+  return {
+    scheduledMessageId: scheduleResponse.scheduled_message_id,
+    postAt: scheduleResponse.post_at,
+    channel: dmChannelId
+  };
+};
@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+
+// Slack recommends rejecting requests older than this to stop replays
+const MAX_REQUEST_AGE_SECONDS = 5 * 60;
+// Slack retries deliveries it thinks failed; remember this many event IDs
+const MAX_SEEN_EVENTS = 500;
+
+export class SlackSignatureError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SlackSignatureError';
+  }
+}
+
+// The X-Slack-Signature value for `rawBody` sent at `timestamp` (seconds).
+// Also used to sign fixture payloads when testing the receiver locally.
+export const signSlackRequest = (signingSecret, timestamp, rawBody) =>
+  `v0=${crypto.createHmac('sha256', signingSecret).update(`v0:${timestamp}:${rawBody}`).digest('hex')}`;
+
+// Throws SlackSignatureError unless the request was signed with `signingSecret`
+// in the last few minutes
+export const verifySlackSignature = ({ signingSecret, timestamp, signature, rawBody, now = Date.now() }) => {
+  if (!timestamp || !signature) {
+    throw new SlackSignatureError('Missing Slack signature headers');
+  }
+  // NaN would slip through the age check below
+  if (!Number.isFinite(Number(timestamp))) {
+    throw new SlackSignatureError('Slack request timestamp is not a number');
+  }
+  if (Math.abs(now / 1000 - Number(timestamp)) > MAX_REQUEST_AGE_SECONDS) {
+    throw new SlackSignatureError('Slack request timestamp is too old');
+  }
+
+  const expected = Buffer.from(signSlackRequest(signingSecret, timestamp, rawBody));
+  const actual = Buffer.from(String(signature));
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new SlackSignatureError('Invalid Slack signature');
+  }
+};
+
+const isActive = (mapping) => !mapping.status || mapping.status === 'active';
+
+/**
+ * Applies Slack Events API callbacks to the user mappings as they happen, so
+ * members show up without waiting for the next sync:
+ * - member_joined_channel adds the member (or the channel to their record)
+ * - member_left_channel removes the channel, marking them as left if it was
+ *   their last tracked one
+ * - user_change updates names and handles, and marks deactivated accounts
+ * Only channels for which `isTrackedChannel` returns true are considered.
+ * `updateMappings(change, reason)` applies a change atomically: `change` gets
+ * the current mappings and returns the new list, or null to leave them alone;
+ * `reason` describes the change for the mapping backups.
+ * `onMemberJoined(channelId, mapping)` is told about each new member.
+ * `handle` takes the parsed request body and returns the response to send.
+ */
+export const createSlackEvents = ({
+  isTrackedChannel,
+  lookUpProfile,
+  primeProfile,
+  updateMappings,
+  onMemberJoined = () => {}
+}) => {
+  const seenEventIds = [];
+
+  const today = () => new Date().toISOString().split('T')[0];
+
+  const memberJoined = async ({ user: userId, channel }) => {
+    if (!isTrackedChannel(channel)) return;
+
+    const user = await lookUpProfile(userId);
+    if (!user || user.deleted || user.is_bot || !user.profile?.real_name) return;
+
+    let joined = null;
+    await updateMappings(mappings => {
+      const existing = mappings.find(m => m.userId === userId);
+      const channels = existing && isActive(existing) ? existing.channels || [] : [];
+      if (channels.includes(channel)) return null;
+
+      const mapping = {
+        ...existing,
+        realName: user.profile.real_name,
+        slackTag: `@${user.name}`,
+        userId,
+        addedOn: existing?.addedOn || today(),
+        channels: [...new Set([...channels, channel])],
+        status: 'active',
+        leftOn: undefined
+      };
+      console.log(`Event: ${mapping.realName} joined ${channel}`);
+      joined = mapping;
+      return [...mappings.filter(m => m.userId !== userId), mapping];
+    }, `${userId} joined ${channel}`);
+
+    if (joined) {
+      await onMemberJoined(channel, joined);
+    }
+  };
+
+  const memberLeft = async ({ user: userId, channel }) => {
+    if (!isTrackedChannel(channel)) return;
+
+    await updateMappings(mappings => {
+      const existing = mappings.find(m => m.userId === userId);
+      if (!existing || !isActive(existing) || !(existing.channels || []).includes(channel)) return null;
+
+      const remaining = existing.channels.filter(c => c !== channel);
+      console.log(`Event: ${existing.realName} left ${channel}`);
+      // Departed users keep the channel they were last seen in
+      const mapping = remaining.length > 0
+        ? { ...existing, channels: remaining }
+        : { ...existing, status: 'left', leftOn: today() };
+      return mappings.map(m => m.userId === userId ? mapping : m);
+    }, `${userId} left ${channel}`);
+  };
+
+  const userChanged = async ({ user }) => {
+    primeProfile(user);
+
+    await updateMappings(mappings => {
+      const existing = mappings.find(m => m.userId === user.id);
+      if (!existing) return null;
+
+      const mapping = {
+        ...existing,
+        realName: user.profile?.real_name || existing.realName,
+        slackTag: user.name ? `@${user.name}` : existing.slackTag,
+        ...(user.deleted && isActive(existing) ? { status: 'deactivated', leftOn: today() } : {})
+      };
+      if (JSON.stringify(mapping) === JSON.stringify(existing)) return null;
+
+      console.log(`Event: profile of ${existing.realName} changed`);
+      return mappings.map(m => m.userId === user.id ? mapping : m);
+    }, `profile change of ${user.id}`);
+  };
+
+  const handlers = {
+    member_joined_channel: memberJoined,
+    member_left_channel: memberLeft,
+    user_change: userChanged
+  };
+
+  // Slack redelivers events it didn't get a timely 200 for
+  const isDuplicate = (eventId) => {
+    if (!eventId) return false;
+    if (seenEventIds.includes(eventId)) return true;
+    seenEventIds.push(eventId);
+    if (seenEventIds.length > MAX_SEEN_EVENTS) seenEventIds.shift();
+    return false;
+  };
+
+  // Resolves once the event has been applied; callers acknowledge Slack first
+  const processEvent = async (payload) => {
+    const handler = handlers[payload.event?.type];
+    if (!handler || isDuplicate(payload.event_id)) return;
+
+    try {
+      await handler(payload.event);
+    } catch (error) {
+      console.error(`Error handling Slack ${payload.event.type} event:`, error.message);
+    }
+  };
+
+  // Returns { body, process } where `body` is the immediate response to Slack
+  // and `process` (if any) applies the event afterwards
+  const handle = (payload) => {
+    if (payload.type === 'url_verification') {
+      return { body: { challenge: payload.challenge } };
+    }
+    if (payload.type === 'event_callback') {
+      return { body: { ok: true }, process: () => processEvent(payload) };
+    }
+    return { body: { ok: true } };
+  };
+
+  return { handle, processEvent };
+};
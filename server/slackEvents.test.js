@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { signSlackRequest, SlackSignatureError, verifySlackSignature } from './slackEvents.js';
+
+const signingSecret = 'test-signing-secret';
+const rawBody = JSON.stringify({ type: 'url_verification', challenge: 'abc' });
+const now = 1760000000 * 1000;
+const timestamp = String(now / 1000);
+
+const signed = (overrides = {}) => ({
+  signingSecret,
+  timestamp,
+  signature: signSlackRequest(signingSecret, timestamp, rawBody),
+  rawBody,
+  now,
+  ...overrides
+});
+
+const rejects = (request, message) =>
+  assert.throws(() => verifySlackSignature(request), error =>
+    error instanceof SlackSignatureError && error.message === message);
+
+describe('verifySlackSignature', () => {
+  it('accepts a request signed with the secret', () => {
+    assert.doesNotThrow(() => verifySlackSignature(signed()));
+  });
+
+  it('rejects missing headers', () => {
+    rejects(signed({ signature: undefined }), 'Missing Slack signature headers');
+    rejects(signed({ timestamp: undefined }), 'Missing Slack signature headers');
+  });
+
+  it('rejects a changed body or the wrong secret', () => {
+    rejects(signed({ rawBody: `${rawBody} ` }), 'Invalid Slack signature');
+    rejects(signed({ signingSecret: 'another-secret' }), 'Invalid Slack signature');
+  });
+
+  it('rejects requests outside the replay window, even if correctly signed', () => {
+    const old = String(now / 1000 - 301);
+    rejects(signed({ timestamp: old, signature: signSlackRequest(signingSecret, old, rawBody) }),
+      'Slack request timestamp is too old');
+  });
+
+  it('rejects a timestamp that is not a number before checking the signature', () => {
+    rejects(signed({ timestamp: 'abc', signature: signSlackRequest(signingSecret, 'abc', rawBody) }),
+      'Slack request timestamp is not a number');
+  });
+});
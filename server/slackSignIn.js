@@ -0,0 +1,147 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { parseCookies, ROLES } from './auth.js';
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+// Holds the `state` of the sign-in this browser started, so a callback
+// carrying someone else's code and state is refused (login CSRF)
+const STATE_COOKIE = 'slack_signin_state';
+const STATE_COOKIE_PATH = '/api/auth/slack';
+
+export class SlackSignInError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SlackSignInError';
+  }
+}
+
+/**
+ * "Sign in with Slack" (OpenID Connect). Builds the authorize redirect,
+ * exchanges the callback code for the operator's Slack identity and checks it
+ * against the allow-list. Allow-list entries are Slack user IDs, optionally
+ * with a role ("U0123ABC:sender"); entries without one are viewers, and an
+ * unknown role stops the server from starting. `baseUrl` defaults to
+ * https://slack.com and can point at a local stand-in server to exercise the
+ * token exchange (see fakeSlackOAuth.js).
+ */
+export const createSlackSignIn = ({
+  clientId,
+  clientSecret,
+  redirectUri,
+  allowedUsers = [],
+  teamId,
+  baseUrl = 'https://slack.com'
+}) => {
+  // Pending `state` values, so a callback is only accepted for a flow we started
+  const pendingStates = new Map();
+  const roles = new Map(allowedUsers.map(entry => {
+    const [userId, role] = entry.split(':').map(part => part.trim());
+    if (role && !ROLES.includes(role)) {
+      throw new Error(`Unknown role "${role}" for ${userId} in SLACK_SIGNIN_ALLOWED_USERS; use one of: ${ROLES.join(', ')}`);
+    }
+    return [userId, role || 'viewer'];
+  }));
+
+  const isConfigured = () => Boolean(clientId && clientSecret);
+
+  // The allow-listed role for a Slack user, or null if they aren't allowed in
+  const getRole = (slackUserId) => roles.get(slackUserId) || null;
+
+  // Starts a sign-in from this browser and returns the URL to send it to
+  const startSignIn = (res) => {
+    const state = crypto.randomBytes(16).toString('hex');
+    pendingStates.set(state, Date.now() + STATE_TTL_MS);
+    res.cookie(STATE_COOKIE, state, {
+      httpOnly: true,
+      // Sent along when Slack redirects back, which is a top-level navigation
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: STATE_TTL_MS,
+      path: STATE_COOKIE_PATH
+    });
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      scope: 'openid profile',
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      state,
+      ...(teamId ? { team: teamId } : {})
+    });
+    return `${baseUrl}/openid/connect/authorize?${params}`;
+  };
+
+  const consumeState = (state) => {
+    const expiresAt = state && pendingStates.get(state);
+    pendingStates.delete(state);
+    for (const [key, expiry] of pendingStates) {
+      if (expiry < Date.now()) pendingStates.delete(key);
+    }
+    return Boolean(expiresAt && expiresAt >= Date.now());
+  };
+
+  // Swap the callback's code for a token, then look up who signed in
+  const exchangeCode = async (code) => {
+    const tokenResponse = await axios.post(
+      `${baseUrl}/api/openid.connect.token`,
+      new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        code,
+        redirect_uri: redirectUri
+      }),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+    );
+    if (!tokenResponse.data.ok) {
+      throw new SlackSignInError(`Token exchange failed: ${tokenResponse.data.error || 'unknown_error'}`);
+    }
+
+    const userInfoResponse = await axios.get(`${baseUrl}/api/openid.connect.userInfo`, {
+      headers: { 'Authorization': `Bearer ${tokenResponse.data.access_token}` }
+    });
+    if (!userInfoResponse.data.ok) {
+      throw new SlackSignInError(`Could not read Slack identity: ${userInfoResponse.data.error || 'unknown_error'}`);
+    }
+
+    return userInfoResponse.data;
+  };
+
+  // Completes the callback and returns the session user, or throws SlackSignInError
+  const completeSignIn = async (req, res) => {
+    const { code, state } = req.query;
+    const browserState = parseCookies(req.headers.cookie)[STATE_COOKIE];
+    res.clearCookie(STATE_COOKIE, { path: STATE_COOKIE_PATH });
+
+    if (!consumeState(state)) {
+      throw new SlackSignInError('Sign-in request expired or was not started here');
+    }
+    if (state !== browserState) {
+      throw new SlackSignInError('Sign-in was started in a different browser; please try again');
+    }
+    if (!code) {
+      throw new SlackSignInError('Slack did not return an authorization code');
+    }
+
+    const identity = await exchangeCode(code);
+    const slackUserId = identity.sub || identity['https://slack.com/user_id'];
+    const slackTeamId = identity['https://slack.com/team_id'];
+
+    if (teamId && slackTeamId !== teamId) {
+      throw new SlackSignInError('That Slack account belongs to a different workspace');
+    }
+    const role = getRole(slackUserId);
+    if (!role) {
+      throw new SlackSignInError(`Slack user ${slackUserId} is not allowed to use this app`);
+    }
+
+    return {
+      username: slackUserId,
+      name: identity.name || slackUserId,
+      image: identity.picture,
+      role,
+      provider: 'slack'
+    };
+  };
+
+  return { isConfigured, getRole, startSignIn, completeSignIn };
+};
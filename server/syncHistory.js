@@ -0,0 +1,41 @@
+import fs from 'fs';
+
+const MAX_STORED_RUNS = 200;
+
+/**
+ * Finished sync runs, including each run's joins, leaves and profile changes,
+ * persisted as a JSON array. Only the most recent MAX_STORED_RUNS are kept.
+ */
+export const createSyncHistory = ({ runsFile }) => {
+  const readRuns = () => {
+    if (!fs.existsSync(runsFile)) {
+      return [];
+    }
+    return JSON.parse(fs.readFileSync(runsFile, 'utf8'));
+  };
+
+  const writeRuns = (runs) => {
+    fs.writeFileSync(runsFile, JSON.stringify(runs, null, 2));
+  };
+
+  const initialize = () => {
+    if (!fs.existsSync(runsFile)) {
+      console.log(`Creating new sync history file at: ${runsFile}`);
+      writeRuns([]);
+    }
+  };
+
+  const record = (run) => {
+    const runs = readRuns();
+    runs.push(run);
+    writeRuns(runs.slice(-MAX_STORED_RUNS));
+  };
+
+  // Newest first, optionally only runs that finished at or after `since` (ISO date)
+  const list = ({ since } = {}) =>
+    readRuns()
+      .filter(run => !since || run.finishedAt >= since)
+      .reverse();
+
+  return { initialize, record, list };
+};
@@ -0,0 +1,93 @@
+// Field ranges for "minute hour day-of-month month day-of-week"
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 6 },
+];
+
+// Expands one cron field ("*", "5", "1-5", "*/15", "0,30") into the set of values it matches
+const parseField = (text, { name, min, max }) => {
+  const values = new Set();
+
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let [start, end] = range === '*'
+      ? [min, max]
+      : range.split('-').map(Number);
+    end = end ?? (stepText === undefined ? start : max);
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || !Number.isInteger(step) ||
+        step < 1 || start < min || end > max || start > end) {
+      throw new Error(`Invalid ${name} "${part}" in sync schedule`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parses a five-field cron expression (local time) into a function that says
+ * whether a given minute matches. Supports *, numbers, ranges, lists and
+ * steps; like cron, when both day fields are restricted either may match.
+ */
+export const parseSchedule = (expression) => {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== CRON_FIELDS.length) {
+    throw new Error(`Sync schedule "${expression}" must have five fields: minute hour day month weekday`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, CRON_FIELDS[i]));
+  const dayRestricted = parts[2] !== '*';
+  const weekdayRestricted = parts[4] !== '*';
+
+  return (date) => {
+    const dayMatches = days.has(date.getDate());
+    const weekdayMatches = weekdays.has(date.getDay());
+    const dateMatches = dayRestricted && weekdayRestricted
+      ? dayMatches || weekdayMatches
+      : dayMatches && weekdayMatches;
+
+    return minutes.has(date.getMinutes()) && hours.has(date.getHours()) &&
+      months.has(date.getMonth() + 1) && dateMatches;
+  };
+};
+
+/**
+ * Calls `onTick` at every minute matching the cron `schedule`. The timer is
+ * re-armed at the start of each minute so it doesn't drift.
+ */
+export const createSyncScheduler = ({ schedule, onTick }) => {
+  const matches = parseSchedule(schedule);
+  let timer = null;
+
+  const armTimer = () => {
+    const now = new Date();
+    const msUntilNextMinute = 60000 - (now.getSeconds() * 1000 + now.getMilliseconds());
+
+    timer = setTimeout(() => {
+      if (matches(new Date())) {
+        Promise.resolve()
+          .then(onTick)
+          .catch(error => console.error('Scheduled sync failed to start:', error.message));
+      }
+      armTimer();
+    }, msUntilNextMinute);
+  };
+
+  const start = () => {
+    if (!timer) armTimer();
+  };
+
+  const stop = () => {
+    clearTimeout(timer);
+    timer = null;
+  };
+
+  return { start, stop };
+};
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+
+export class TemplateValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TemplateValidationError';
+  }
+}
+
+// Shape returned by the API: the stored record plus the text of its current version
+const toTemplate = (row, versions) => ({
+  id: row.id,
+  name: row.name,
+  isDefault: Boolean(row.is_default),
+  currentVersion: row.current_version,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  versions,
+  text: versions.find(v => v.version === row.current_version)?.text ?? ''
+});
+
+const requireName = (name) => {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new TemplateValidationError('Template name is required');
+  }
+  return name.trim();
+};
+
+const requireText = (text) => {
+  if (typeof text !== 'string' || !text.trim()) {
+    throw new TemplateValidationError('Template text is required');
+  }
+  return text;
+};
+
+/**
+ * Message templates stored in SQLite. Each template keeps every saved version
+ * of its text; editing the text appends a version rather than overwriting,
+ * and exactly one template is flagged as the default.
+ */
+export const createTemplateStore = ({ db }) => {
+  const selectVersions = db.prepare(
+    'SELECT version, text, created_at AS createdAt FROM template_versions WHERE template_id = ? ORDER BY version'
+  );
+  const insertVersion = db.prepare(
+    'INSERT INTO template_versions (template_id, version, text, created_at) VALUES (?, ?, ?, ?)'
+  );
+
+  const load = (row) => toTemplate(row, selectVersions.all(row.id));
+
+  // Keep the default invariant: if none is flagged, the oldest one is
+  const ensureDefault = () => {
+    if (!db.prepare('SELECT 1 FROM templates WHERE is_default = 1').get()) {
+      db.prepare('UPDATE templates SET is_default = 1 WHERE rowid = (SELECT MIN(rowid) FROM templates)').run();
+    }
+  };
+
+  const list = () => db.prepare('SELECT * FROM templates ORDER BY rowid').all().map(load);
+
+  const get = (id) => {
+    const row = db.prepare('SELECT * FROM templates WHERE id = ?').get(id);
+    return row ? load(row) : null;
+  };
+
+  const getDefault = () => {
+    const row = db.prepare('SELECT * FROM templates ORDER BY is_default DESC, rowid LIMIT 1').get();
+    return row ? load(row) : null;
+  };
+
+  const create = ({ name, text, isDefault = false }) => {
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+    const validName = requireName(name);
+    const validText = requireText(text);
+
+    db.transaction(() => {
+      const makeDefault = isDefault || !db.prepare('SELECT 1 FROM templates').get();
+      if (makeDefault) {
+        db.prepare('UPDATE templates SET is_default = 0').run();
+      }
+      db.prepare(`
+        INSERT INTO templates (id, name, is_default, current_version, created_at, updated_at)
+        VALUES (?, ?, ?, 1, ?, ?)
+      `).run(id, validName, makeDefault ? 1 : 0, now, now);
+      insertVersion.run(id, 1, validText, now);
+    })();
+
+    return get(id);
+  };
+
+  // Rename and/or save new text. New text becomes a new version; passing a
+  // `version` instead restores that earlier version as the current one.
+  const update = (id, { name, text, version }) => db.transaction(() => {
+    const template = get(id);
+    if (!template) return null;
+
+    const now = new Date().toISOString();
+    let currentVersion = template.currentVersion;
+
+    if (text !== undefined) {
+      requireText(text);
+      if (text !== template.text) {
+        currentVersion = Math.max(...template.versions.map(v => v.version)) + 1;
+        insertVersion.run(id, currentVersion, text, now);
+      }
+    } else if (version !== undefined) {
+      if (!template.versions.some(v => v.version === Number(version))) {
+        throw new TemplateValidationError(`Template has no version ${version}`);
+      }
+      currentVersion = Number(version);
+    }
+
+    db.prepare('UPDATE templates SET name = ?, current_version = ?, updated_at = ? WHERE id = ?')
+      .run(name !== undefined ? requireName(name) : template.name, currentVersion, now, id);
+    return get(id);
+  })();
+
+  const duplicate = (id, { name } = {}) => {
+    const source = get(id);
+    if (!source) return null;
+    return create({ name: name || `${source.name} (copy)`, text: source.text });
+  };
+
+  const setDefault = (id) => db.transaction(() => {
+    if (!get(id)) return null;
+
+    db.prepare('UPDATE templates SET is_default = (id = ?)').run(id);
+    return get(id);
+  })();
+
+  const remove = (id) => db.transaction(() => {
+    const removed = db.prepare('DELETE FROM templates WHERE id = ?').run(id).changes > 0;
+    ensureDefault();
+    return removed;
+  })();
+
+  return { list, get, getDefault, create, update, duplicate, setDefault, remove };
+};
@@ -0,0 +1,28 @@
+import { fieldErrors, describeFieldErrors } from '../src/shared/schemas.js';
+
+const rejectRequest = (res, error) => {
+  const fields = fieldErrors(error);
+  res.status(400).json({ error: describeFieldErrors(fields), fields });
+};
+
+// Route middleware: replaces req.body with what `schema` parses out of it,
+// or answers 400 with { error, fields: [{ path, message }] }
+export const validateBody = (schema) => (req, res, next) => {
+  const result = schema.safeParse(req.body ?? {});
+  if (!result.success) {
+    return rejectRequest(res, result.error);
+  }
+  req.body = result.data;
+  next();
+};
+
+// The same for the query string. Express 5 only has a getter for req.query,
+// so the parsed query is defined on the request itself.
+export const validateQuery = (schema) => (req, res, next) => {
+  const result = schema.safeParse(req.query ?? {});
+  if (!result.success) {
+    return rejectRequest(res, result.error);
+  }
+  Object.defineProperty(req, 'query', { value: result.data, writable: true, configurable: true, enumerable: true });
+  next();
+};
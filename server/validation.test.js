@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateBody, validateQuery } from './validation.js';
+import {
+  historyQuerySchema,
+  parseRequest,
+  RequestValidationError,
+  syncRunsQuerySchema,
+  usersInfoQuerySchema,
+  usersListQuerySchema,
+  welcomeRuleSchema
+} from '../src/shared/schemas.js';
+
+// The field errors a schema reports for `data`, or [] if it parses
+const errorsFor = (schema, data) => {
+  try {
+    parseRequest(schema, data);
+    return [];
+  } catch (error) {
+    assert.ok(error instanceof RequestValidationError);
+    return error.fields;
+  }
+};
+
+const fakeResponse = () => {
+  const res = { statusCode: 200, body: undefined };
+  res.status = (code) => { res.statusCode = code; return res; };
+  res.json = (body) => { res.body = body; return res; };
+  return res;
+};
+
+// Runs one middleware and reports whether it passed the request on
+const run = (middleware, req) => {
+  const res = fakeResponse();
+  let passed = false;
+  middleware(req, res, () => { passed = true; });
+  return { res, passed };
+};
+
+describe('welcome rule schema', () => {
+  it('accepts a complete rule', () => {
+    assert.deepEqual(errorsFor(welcomeRuleSchema, {
+      enabled: true,
+      dryRun: false,
+      templateId: 'tpl1',
+      delayMinutes: 5,
+      quietHours: { start: '22:00', end: '08:00' }
+    }), []);
+    assert.deepEqual(errorsFor(welcomeRuleSchema, { enabled: false, templateId: null, quietHours: null }), []);
+  });
+
+  it('rejects a template ID that is not text', () => {
+    assert.deepEqual(errorsFor(welcomeRuleSchema, { enabled: true, templateId: { a: 1 } }), [
+      { path: 'templateId', message: 'Must be text' }
+    ]);
+  });
+
+  it('requires a template to enable the rule', () => {
+    assert.deepEqual(errorsFor(welcomeRuleSchema, { enabled: true }), [
+      { path: 'templateId', message: 'Choose a template to welcome new members with' }
+    ]);
+  });
+
+  it('rejects quiet hours that start and end at the same time', () => {
+    assert.deepEqual(errorsFor(welcomeRuleSchema, { quietHours: { start: '09:00', end: '09:00' } }), [
+      { path: 'quietHours.end', message: 'Must end at a different time than it starts' }
+    ]);
+    assert.deepEqual(errorsFor(welcomeRuleSchema, { quietHours: { start: '24:00', end: '9:00' } }).map(f => f.path), [
+      'quietHours.start',
+      'quietHours.end'
+    ]);
+  });
+
+  it('rejects delays that are not whole, non-negative minutes', () => {
+    assert.equal(errorsFor(welcomeRuleSchema, { delayMinutes: 1.5 })[0].path, 'delayMinutes');
+    assert.equal(errorsFor(welcomeRuleSchema, { delayMinutes: -1 })[0].path, 'delayMinutes');
+    assert.equal(errorsFor(welcomeRuleSchema, { delayMinutes: '5' })[0].path, 'delayMinutes');
+  });
+});
+
+describe('query schemas', () => {
+  it('turns the users.list limit into a number within range', () => {
+    assert.deepEqual(parseRequest(usersListQuerySchema, { limit: '200', cursor: 'abc' }), { limit: 200, cursor: 'abc' });
+    assert.deepEqual(errorsFor(usersListQuerySchema, { limit: 'ten' }), [{ path: 'limit', message: 'Must be a whole number' }]);
+    assert.deepEqual(errorsFor(usersListQuerySchema, { limit: '0' }), [{ path: 'limit', message: 'Must be at least 1' }]);
+    assert.deepEqual(errorsFor(usersListQuerySchema, { limit: '1001' }), [{ path: 'limit', message: 'Must be at most 1000' }]);
+  });
+
+  it('requires a Slack user ID for users.info', () => {
+    assert.deepEqual(parseRequest(usersInfoQuerySchema, { user: 'U0123ABCD' }), { user: 'U0123ABCD' });
+    assert.deepEqual(errorsFor(usersInfoQuerySchema, {}), [{ path: 'user', message: 'Required' }]);
+    assert.equal(errorsFor(usersInfoQuerySchema, { user: 'alice' })[0].path, 'user');
+  });
+
+  it('only filters history by known statuses and user IDs', () => {
+    assert.deepEqual(parseRequest(historyQuerySchema, { status: 'scheduled', userId: 'W0123' }), { status: 'scheduled', userId: 'W0123' });
+    assert.equal(errorsFor(historyQuerySchema, { status: 'pending' })[0].path, 'status');
+    assert.equal(errorsFor(historyQuerySchema, { userId: 'u0123' })[0].path, 'userId');
+  });
+
+  it('requires an ISO date for sync runs since', () => {
+    assert.deepEqual(errorsFor(syncRunsQuerySchema, { since: '2024-01-31' }), []);
+    assert.deepEqual(errorsFor(syncRunsQuerySchema, { since: '2024-01-31T09:00:00Z' }), []);
+    assert.equal(errorsFor(syncRunsQuerySchema, { since: 'yesterday' })[0].path, 'since');
+    assert.equal(errorsFor(syncRunsQuerySchema, { since: '2024-13-45' })[0].path, 'since');
+  });
+});
+
+describe('validation middleware', () => {
+  it('replaces the body with the parsed data', () => {
+    const req = { body: { enabled: false, unknown: 'dropped' } };
+    const { res, passed } = run(validateBody(welcomeRuleSchema), req);
+
+    assert.equal(passed, true);
+    assert.equal(res.statusCode, 200);
+    assert.deepEqual(req.body, { enabled: false });
+  });
+
+  it('answers 400 with the bad fields instead of passing the request on', () => {
+    const { res, passed } = run(validateBody(welcomeRuleSchema), { body: { enabled: true, templateId: { a: 1 } } });
+
+    assert.equal(passed, false);
+    assert.equal(res.statusCode, 400);
+    assert.deepEqual(res.body, {
+      error: 'Invalid request: templateId: Must be text',
+      fields: [{ path: 'templateId', message: 'Must be text' }]
+    });
+  });
+
+  it('replaces a getter-only query with the parsed data', () => {
+    const req = Object.create({ get query() { return { limit: '50' }; } });
+    const { passed } = run(validateQuery(usersListQuerySchema), req);
+
+    assert.equal(passed, true);
+    assert.deepEqual(req.query, { limit: 50 });
+  });
+
+  it('answers 400 for a bad query', () => {
+    const { res, passed } = run(validateQuery(usersListQuerySchema), { query: { limit: '5000' } });
+
+    assert.equal(passed, false);
+    assert.equal(res.statusCode, 400);
+    assert.deepEqual(res.body.fields, [{ path: 'limit', message: 'Must be at most 1000' }]);
+  });
+});
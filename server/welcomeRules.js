@@ -0,0 +1,194 @@
+import fs from 'fs';
+import { renderPlaceholders } from '../src/shared/placeholders.js';
+
+const MAX_LOG_ENTRIES = 50;
+// Sends due sooner than this go out immediately instead of being scheduled
+const MIN_SCHEDULE_AHEAD_MS = 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const toMinutes = (time) => {
+  const [, hours, minutes] = time.match(TIME_PATTERN);
+  return Number(hours) * 60 + Number(minutes);
+};
+
+// Quiet hours may wrap midnight, e.g. 22:00-08:00
+const isQuietTime = (date, quietHours) => {
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+// When a welcome for someone detected at `now` should go out: after the
+// rule's delay, pushed to the end of quiet hours (server local time) if needed
+export const getWelcomeTime = (rule, now = new Date()) => {
+  const sendAt = new Date(now.getTime() + rule.delayMinutes * 60 * 1000);
+  if (!rule.quietHours || !isQuietTime(sendAt, rule.quietHours)) {
+    return sendAt;
+  }
+
+  const end = toMinutes(rule.quietHours.end);
+  const quietEnd = new Date(sendAt);
+  quietEnd.setHours(Math.floor(end / 60), end % 60, 0, 0);
+  if (quietEnd <= sendAt) {
+    quietEnd.setDate(quietEnd.getDate() + 1);
+  }
+  return quietEnd;
+};
+
+// A rule as stored, from input already checked against welcomeRuleSchema;
+// new rules start in dry-run mode unless told otherwise
+const toRule = (input) => ({
+  enabled: Boolean(input.enabled),
+  dryRun: input.dryRun !== false,
+  templateId: input.templateId || null,
+  delayMinutes: input.delayMinutes ?? 0,
+  quietHours: input.quietHours ? { start: input.quietHours.start, end: input.quietHours.end } : null
+});
+
+/**
+ * Per-channel rules for welcoming new members with a DM, persisted as a JSON
+ * file. `welcome` is called with the members a sync (or a Slack event) found
+ * joining a channel; if the channel has an enabled rule, each of them gets the
+ * rule's template, sent straight away or scheduled with Slack when a delay or
+ * quiet hours apply. In dry-run mode nothing is sent and the welcome is only
+ * logged. Each rule keeps a short log of what it did (`log`, newest first).
+ *
+ * Real welcomes go through the DM queue (`enqueueDms`), so they are paced and
+ * retried like bulk sends; the queue reports back through `recordResult`.
+ * `isQueued(channelId, userId)` and `hasBeenWelcomed(channelId, userId)` say
+ * whether a welcome to that user from that channel's rule is still waiting or
+ * already in the history, so nobody gets two.
+ */
+export const createWelcomeRules = ({ rulesFile, getTemplate, enqueueDms, isQueued, hasBeenWelcomed }) => {
+  const readRules = () => {
+    if (!fs.existsSync(rulesFile)) {
+      return [];
+    }
+    return JSON.parse(fs.readFileSync(rulesFile, 'utf8'));
+  };
+
+  const writeRules = (rules) => {
+    fs.writeFileSync(rulesFile, JSON.stringify(rules, null, 2));
+  };
+
+  const initialize = () => {
+    if (!fs.existsSync(rulesFile)) {
+      console.log(`Creating new welcome rules file at: ${rulesFile}`);
+      writeRules([]);
+    }
+  };
+
+  const list = () => readRules();
+
+  const get = (channelId) => readRules().find(rule => rule.channelId === channelId) || null;
+
+  // Creates or replaces the rule for a channel, keeping its log. `input` must
+  // match welcomeRuleSchema (src/shared/schemas.js).
+  const save = (channelId, input, updatedBy) => {
+    const rules = readRules();
+    const existing = rules.find(rule => rule.channelId === channelId);
+    const rule = {
+      channelId,
+      ...toRule(input),
+      updatedAt: new Date().toISOString(),
+      updatedBy,
+      log: existing?.log || []
+    };
+    writeRules([...rules.filter(r => r.channelId !== channelId), rule]);
+    return rule;
+  };
+
+  const remove = (channelId) => {
+    const rules = readRules();
+    const remaining = rules.filter(rule => rule.channelId !== channelId);
+    if (remaining.length === rules.length) return false;
+
+    writeRules(remaining);
+    return true;
+  };
+
+  const appendLog = (channelId, entry) => {
+    const rules = readRules();
+    const rule = rules.find(r => r.channelId === channelId);
+    if (!rule) return;
+
+    rule.log = [{ ...entry, at: new Date().toISOString() }, ...rule.log].slice(0, MAX_LOG_ENTRIES);
+    writeRules(rules);
+  };
+
+  // Real welcomes are looked up in the message history, which unlike the log
+  // is never trimmed; dry runs only ever show up in the log
+  const alreadyWelcomed = (rule, userId) =>
+    isQueued(rule.channelId, userId) ||
+    hasBeenWelcomed(rule.channelId, userId) ||
+    (rule.dryRun && rule.log.some(entry => entry.userId === userId && entry.status === 'dry-run'));
+
+  // `users` are the mappings of members who just joined `channelId`. Runs
+  // without awaiting anything, so a sync and an event reporting the same join
+  // can't both queue a welcome.
+  const welcome = async (channelId, users) => {
+    const rule = get(channelId);
+    if (!rule?.enabled || users.length === 0) return;
+
+    const template = getTemplate(rule.templateId);
+    if (!template) {
+      console.error(`Welcome rule for ${channelId} uses missing template ${rule.templateId}`);
+      return;
+    }
+
+    const sendAt = getWelcomeTime(rule);
+    const immediate = sendAt.getTime() - Date.now() < MIN_SCHEDULE_AHEAD_MS;
+    const postAt = immediate ? undefined : Math.floor(sendAt.getTime() / 1000);
+    const messages = [];
+
+    users.filter(user => !alreadyWelcomed(rule, user.userId)).forEach(user => {
+      const { text, missing } = renderPlaceholders(template.text, user);
+      const entry = { userId: user.userId, realName: user.realName, text, dryRun: rule.dryRun };
+
+      if (missing.length > 0) {
+        console.log(`Not welcoming ${user.realName} to ${channelId}: missing ${missing.join(', ')}`);
+        appendLog(channelId, { ...entry, status: 'failed', error: `Unresolved placeholders: ${missing.join(', ')}` });
+      } else if (rule.dryRun) {
+        console.log(`[dry run] Would welcome ${user.realName} (${user.userId}) to ${channelId}` +
+          `${immediate ? ' now' : ` at ${sendAt.toISOString()}`}: ${text}`);
+        appendLog(channelId, { ...entry, status: 'dry-run', postAt });
+      } else {
+        messages.push({ userId: user.userId, messageText: text, realName: user.realName });
+      }
+    });
+
+    if (messages.length > 0) {
+      enqueueDms({
+        messages,
+        messageText: template.text,
+        template: { templateId: template.id, version: template.currentVersion },
+        postAt,
+        welcomeChannelId: channelId
+      });
+    }
+  };
+
+  // Called by the DM queue once a queued welcome was sent, scheduled or failed
+  const recordResult = (job, recipient) => {
+    const status = recipient.status === 'sent' && job.postAt ? 'scheduled' : recipient.status;
+    if (status === 'failed') {
+      console.error(`Failed to welcome ${recipient.userId} to ${job.welcomeChannelId}:`, recipient.error);
+    } else {
+      console.log(`Welcomed ${recipient.realName || recipient.userId} (${recipient.userId}) to ${job.welcomeChannelId}`);
+    }
+    appendLog(job.welcomeChannelId, {
+      userId: recipient.userId,
+      realName: recipient.realName,
+      text: recipient.messageText ?? job.messageText,
+      dryRun: false,
+      status,
+      postAt: job.postAt,
+      error: recipient.error
+    });
+  };
+
+  return { initialize, list, get, save, remove, welcome, recordResult };
+};
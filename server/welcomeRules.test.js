@@ -0,0 +1,110 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createDmQueue } from './dmQueue.js';
+import { createWelcomeRules } from './welcomeRules.js';
+import { SlackApiError } from './slackApi.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'welcome-rules-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const template = { id: 'tpl1', currentVersion: 2, text: 'Welcome, {{firstName}}!' };
+const ann = { userId: 'U01ANN', realName: 'Ann Example', slackTag: '@ann' };
+const bob = { userId: 'U02BOB', realName: 'Bob Example', slackTag: '@bob' };
+
+const waitFor = async (check) => {
+  for (let i = 0; i < 200 && !check(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  assert.ok(check(), 'timed out');
+};
+
+describe('welcome rules', () => {
+  let sends;
+  let failNextWith;
+  let history;
+  let welcomeRules;
+  let dmQueue;
+
+  beforeEach(() => {
+    fs.rmSync(path.join(dir, 'jobs.json'), { force: true });
+    fs.rmSync(path.join(dir, 'rules.json'), { force: true });
+    sends = [];
+    failNextWith = [];
+    history = [];
+
+    dmQueue = createDmQueue({
+      jobsFile: path.join(dir, 'jobs.json'),
+      getToken: () => 'xoxb-test',
+      intervalMs: 1,
+      sendDm: async (token, userId, messageText) => {
+        const error = failNextWith.shift();
+        if (error) throw error;
+        sends.push({ userId, messageText, at: Date.now() });
+        return { messageTs: '1.0', channel: `D${userId}` };
+      },
+      onResult: (job, recipient) => {
+        history.push({ userId: recipient.userId, status: recipient.status, welcomeChannelId: job.welcomeChannelId });
+        welcomeRules.recordResult(job, recipient);
+      }
+    });
+    welcomeRules = createWelcomeRules({
+      rulesFile: path.join(dir, 'rules.json'),
+      getTemplate: () => template,
+      enqueueDms: dmQueue.enqueue,
+      isQueued: (channelId, userId) => dmQueue.isPending(userId, { welcomeChannelId: channelId }),
+      hasBeenWelcomed: (channelId, userId) => history.some(entry =>
+        entry.welcomeChannelId === channelId && entry.userId === userId && entry.status === 'sent')
+    });
+    welcomeRules.initialize();
+  });
+
+  it('sends welcomes through the DM queue, retrying rate-limited sends', async () => {
+    welcomeRules.save('C1', { enabled: true, dryRun: false, templateId: 'tpl1' }, 'admin');
+    failNextWith = [new SlackApiError('chat.postMessage', 'ratelimited', { status: 429, retryAfter: 0.01 })];
+
+    await welcomeRules.welcome('C1', [ann, bob]);
+    await waitFor(() => sends.length === 2);
+
+    assert.deepEqual(sends.map(s => s.messageText), ['Welcome, Ann!', 'Welcome, Bob!']);
+    assert.equal(dmQueue.listJobs()[0].welcomeChannelId, 'C1');
+    await waitFor(() => welcomeRules.get('C1').log.length === 2);
+    assert.deepEqual(welcomeRules.get('C1').log.map(entry => [entry.userId, entry.status]), [
+      [bob.userId, 'sent'],
+      [ann.userId, 'sent']
+    ]);
+  });
+
+  it('does not queue a second welcome while the first is pending or after it was sent', async () => {
+    welcomeRules.save('C1', { enabled: true, dryRun: false, templateId: 'tpl1' }, 'admin');
+
+    await welcomeRules.welcome('C1', [ann]);
+    await welcomeRules.welcome('C1', [ann]);
+    await waitFor(() => sends.length === 1);
+    await welcomeRules.welcome('C1', [ann]);
+
+    assert.equal(dmQueue.listJobs().length, 1);
+    assert.equal(sends.length, 1);
+  });
+
+  it('only logs welcomes in dry-run mode', async () => {
+    welcomeRules.save('C1', { enabled: true, templateId: 'tpl1' }, 'admin');
+
+    await welcomeRules.welcome('C1', [ann]);
+    await welcomeRules.welcome('C1', [ann]);
+
+    assert.equal(dmQueue.listJobs().length, 0);
+    assert.deepEqual(welcomeRules.get('C1').log.map(entry => entry.status), ['dry-run']);
+  });
+
+  it('logs recipients whose placeholders cannot be filled in without queueing them', async () => {
+    welcomeRules.save('C1', { enabled: true, dryRun: false, templateId: 'tpl1' }, 'admin');
+
+    await welcomeRules.welcome('C1', [{ ...bob, realName: '' }]);
+
+    assert.equal(dmQueue.listJobs().length, 0);
+    assert.equal(welcomeRules.get('C1').log[0].status, 'failed');
+  });
+});
@@ -0,0 +1,38 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AuthService, AuthUser, Role, ROLES } from '@/services/authService';
+import { AuthContext } from '@/hooks/use-auth';
+
+const authService = new AuthService();
+
+// Checks for an existing session on load and shares the signed-in user
+const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    authService.getCurrentUser()
+      .then(setUser)
+      .catch(() => setUser(null))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    setUser(await authService.login(username, password));
+  }, []);
+
+  const logout = useCallback(async () => {
+    await authService.logout();
+    setUser(null);
+  }, []);
+
+  const hasRole = useCallback((role: Role) =>
+    Boolean(user) && ROLES.indexOf(user.role) >= ROLES.indexOf(role), [user]);
+
+  return (
+    <AuthContext.Provider value={{ user, loading, login, logout, hasRole }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export default AuthProvider;
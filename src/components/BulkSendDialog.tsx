@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DmJob, DmJobRecipient, SlackService, UserMapping } from '@/services/slackService';
+import { Ban, Check, Loader2, RotateCcw, X } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import MessageEditor from './MessageEditor';
+import { renderPlaceholders } from '@/lib/placeholders';
+import { TemplateSelection } from '@/services/templateService';
+
+const POLL_INTERVAL_MS = 1000;
+
+interface BulkSendDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipients: UserMapping[];
+  slackService: SlackService | null;
+  onSent?: () => void;
+}
+
+const isJobActive = (job: DmJob | null) => job?.status === 'queued' || job?.status === 'running';
+
+const BulkSendDialog: React.FC<BulkSendDialogProps> = ({ open, onOpenChange, recipients, slackService, onSent }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const [template, setTemplate] = useState<TemplateSelection | undefined>();
+  const [postAt, setPostAt] = useState<number | undefined>();
+  const [job, setJob] = useState<DmJob | null>(null);
+  // Latest status per user across the original job and any retry jobs
+  const [results, setResults] = useState<Record<string, DmJobRecipient>>({});
+  const [isStarting, setIsStarting] = useState(false);
+  const { toast } = useToast();
+
+  // Start from a clean compose step every time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setMessage(null);
+      setJob(null);
+      setResults({});
+    }
+  }, [open]);
+
+  const applyJob = (nextJob: DmJob) => {
+    setJob(nextJob);
+    setResults(prev => {
+      const next = { ...prev };
+      nextJob.recipients.forEach(recipient => { next[recipient.userId] = recipient; });
+      return next;
+    });
+  };
+
+  // Poll the server-side queue while the job is in progress
+  useEffect(() => {
+    if (!slackService || !job || !isJobActive(job)) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const nextJob = await slackService.getDmJob(job.id);
+        applyJob(nextJob);
+
+        if (!isJobActive(nextJob)) {
+          onSent?.();
+          const failed = nextJob.counts.failed;
+          toast({
+            title: failed > 0 ? "Bulk send finished with errors" : "Bulk send complete",
+            description: `${nextJob.postAt ? 'Scheduled' : 'Sent'} ${nextJob.counts.sent} of ${nextJob.total} messages${failed > 0 ? `, ${failed} failed` : ''}.`,
+            variant: failed > 0 ? "destructive" : "default",
+          });
+        }
+      } catch (error) {
+        console.error('Error polling DM job:', error);
+        // Keep polling; the server may just be restarting
+        setJob({ ...job });
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [job, slackService, toast, onSent]);
+
+  const startJob = async (
+    text: string,
+    targets: UserMapping[],
+    templateSelection?: TemplateSelection,
+    scheduleAt?: number
+  ) => {
+    if (!slackService) return;
+
+    setIsStarting(true);
+    try {
+      const messages = targets.map(user => ({
+        userId: user.userId,
+        messageText: renderPlaceholders(text, user).text
+      }));
+      const newJob = await slackService.enqueueDmJob(messages, text, templateSelection, scheduleAt);
+      setMessage(text);
+      setTemplate(templateSelection);
+      setPostAt(scheduleAt);
+      applyJob(newJob);
+      if (!isJobActive(newJob)) {
+        onSent?.();
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to queue messages",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleSend = async (text: string, templateSelection?: TemplateSelection, scheduleAt?: number) => {
+    await startJob(text, recipients, templateSelection, scheduleAt);
+  };
+
+  const retryFailed = () => {
+    if (!message) return;
+    const failedRecipients = recipients.filter(user => results[user.userId]?.status === 'failed');
+    if (postAt && postAt <= Date.now() / 1000) {
+      toast({
+        title: "Schedule time has passed",
+        description: "Compose the message again to pick a new time",
+        variant: "destructive",
+      });
+      return;
+    }
+    void startJob(message, failedRecipients, template, postAt);
+  };
+
+  const cancelJob = async () => {
+    if (!slackService || !job) return;
+
+    try {
+      applyJob(await slackService.cancelDmJob(job.id));
+      onSent?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel sending",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const countStatus = (status: DmJobRecipient['status']) =>
+    recipients.filter(user => results[user.userId]?.status === status).length;
+
+  const sentCount = countStatus('sent');
+  const failedCount = countStatus('failed');
+  const cancelledCount = countStatus('cancelled');
+  const completedCount = sentCount + failedCount + cancelledCount;
+  const progress = recipients.length > 0 ? Math.round((completedCount / recipients.length) * 100) : 0;
+  const isRunning = isJobActive(job);
+
+  const renderStatus = (result?: DmJobRecipient) => {
+    switch (result?.status) {
+      case 'sending':
+        return <span className="flex items-center text-muted-foreground"><Loader2 className="h-4 w-4 mr-1 animate-spin" />Sending</span>;
+      case 'sent':
+        return (
+          <span className="flex items-center text-green-600">
+            <Check className="h-4 w-4 mr-1" />{postAt ? 'Scheduled' : 'Sent'}
+          </span>
+        );
+      case 'failed':
+        return (
+          <span className="flex items-center text-destructive" title={result.error}>
+            <X className="h-4 w-4 mr-1" />{result.error || 'Failed'}
+          </span>
+        );
+      case 'cancelled':
+        return <span className="flex items-center text-muted-foreground"><Ban className="h-4 w-4 mr-1" />Cancelled</span>;
+      default:
+        return (
+          <span className="text-muted-foreground" title={result?.error}>
+            {result?.attempts ? `Retrying (attempt ${result.attempts + 1})` : 'Pending'}
+          </span>
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl">
+            Send Message to {recipients.length} {recipients.length === 1 ? 'User' : 'Users'}
+          </DialogTitle>
+          <DialogDescription>
+            {message === null
+              ? "Compose one message; it will be sent as a direct message to every selected user."
+              : `${sentCount} ${postAt ? `scheduled for ${new Date(postAt * 1000).toLocaleString()}` : 'sent'}, ` +
+                `${failedCount} failed, ${recipients.length - completedCount} remaining. ` +
+                "Sending continues on the server if you close this dialog."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {message === null ? (
+          <MessageEditor
+            onSend={handleSend}
+            isLoading={isStarting}
+            recipients={recipients}
+            sendLabel={`Send to ${recipients.length} ${recipients.length === 1 ? 'user' : 'users'}`}
+          />
+        ) : (
+          <div className="space-y-4">
+            <Progress value={progress} />
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Full Name</TableHead>
+                    <TableHead>Slack Tag</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recipients.map((user) => (
+                    <TableRow key={user.userId}>
+                      <TableCell>{user.realName}</TableCell>
+                      <TableCell>{user.slackTag}</TableCell>
+                      <TableCell>{renderStatus(results[user.userId])}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-end gap-2">
+              {isRunning ? (
+                <Button variant="outline" onClick={cancelJob} className="flex items-center">
+                  <Ban className="mr-2 h-4 w-4" />
+                  Cancel remaining
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  onClick={retryFailed}
+                  disabled={isStarting || failedCount === 0}
+                  className="flex items-center"
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Retry failed ({failedCount})
+                </Button>
+              )}
+              <Button onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkSendDialog;
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { UserMapping } from '@/services/slackService';
+import { MappingConflictError, MappingService } from '@/services/mappingService';
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, X } from 'lucide-react';
+
+interface CustomFieldRow {
+  name: string;
+  value: string;
+}
+
+const toRows = (mapping: UserMapping | null): CustomFieldRow[] =>
+  Object.entries(mapping?.customFields || {}).map(([name, value]) => ({ name, value }));
+
+interface EditMappingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mapping: UserMapping | null;
+  mappingService: MappingService;
+  onSaved: () => void;
+}
+
+// Edits the custom fields of one mapping (names and handles come from Slack).
+// Saves only this mapping, and only if nobody changed it since it was loaded.
+const EditMappingDialog: React.FC<EditMappingDialogProps> = ({
+  open,
+  onOpenChange,
+  mapping,
+  mappingService,
+  onSaved
+}) => {
+  // The state being edited; replaced by the server's copy after a conflict
+  const [base, setBase] = useState<UserMapping | null>(null);
+  const [rows, setRows] = useState<CustomFieldRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setBase(mapping);
+    setRows(toRows(mapping));
+  }, [open, mapping]);
+
+  const updateRow = (index: number, changes: Partial<CustomFieldRow>) =>
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+
+  const names = rows.map(row => row.name.trim()).filter(Boolean);
+  const hasDuplicates = new Set(names).size !== names.length;
+
+  const save = async () => {
+    if (!base) return;
+
+    setSaving(true);
+    try {
+      const customFields = Object.fromEntries(
+        rows.filter(row => row.name.trim()).map(row => [row.name.trim(), row.value])
+      );
+      await mappingService.updateMapping(base.userId, { customFields }, base.version);
+      onSaved();
+      onOpenChange(false);
+      toast({
+        title: "Mapping saved",
+        description: `Updated the custom fields of ${base.realName}`,
+      });
+    } catch (error) {
+      if (error instanceof MappingConflictError) {
+        onSaved();
+        if (error.current) {
+          setBase(error.current);
+          setRows(toRows(error.current));
+        } else {
+          onOpenChange(false);
+        }
+        toast({
+          title: "Mapping changed",
+          description: error.current
+            ? "Someone else changed this mapping; their version is shown. Make your edits again and save."
+            : "Someone else deleted this mapping.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save mapping",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-xl">{base?.realName}</DialogTitle>
+          <DialogDescription>
+            Custom fields fill {'{{placeholders}}'} of the same name in message templates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {rows.length === 0 && (
+            <p className="text-sm text-muted-foreground">No custom fields yet.</p>
+          )}
+          {rows.map((row, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Label className="sr-only" htmlFor={`field-name-${index}`}>Name</Label>
+              <Input
+                id={`field-name-${index}`}
+                placeholder="Name, e.g. location"
+                value={row.name}
+                onChange={(e) => updateRow(index, { name: e.target.value })}
+              />
+              <Label className="sr-only" htmlFor={`field-value-${index}`}>Value</Label>
+              <Input
+                id={`field-value-${index}`}
+                placeholder="Value"
+                value={row.value}
+                onChange={(e) => updateRow(index, { value: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                aria-label="Remove field"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setRows(prev => [...prev, { name: '', value: '' }])}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add field
+          </Button>
+          {hasDuplicates && (
+            <p className="text-sm text-destructive">Each field name can only be used once.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving || hasDuplicates || !base}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditMappingDialog;
@@ -1,6 +1,10 @@
 
 import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
 import { cn } from '@/lib/utils';
+import { LogOut } from 'lucide-react';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -8,8 +12,28 @@ interface LayoutProps {
 }
 
 const Layout: React.FC<LayoutProps> = ({ children, className }) => {
+  const { user, logout } = useAuth();
+  const navigate = useNavigate();
+
+  const handleLogout = async () => {
+    await logout().catch(error => console.error('Error signing out:', error));
+    navigate('/login', { replace: true });
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-secondary/50 flex flex-col justify-center items-center p-4">
+      {user && (
+        <div className="absolute top-4 right-4 flex items-center gap-2 text-sm text-muted-foreground">
+          {user.image && <img src={user.image} alt="" className="h-6 w-6 rounded-full" />}
+          <span title={user.provider === 'slack' ? `Signed in with Slack as ${user.username}` : undefined}>
+            {user.name || user.username}
+          </span>
+          <Button variant="ghost" size="sm" onClick={handleLogout}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign out
+          </Button>
+        </div>
+      )}
       <div className={cn("w-full relative transition-all-300", className)}>
         {children}
       </div>
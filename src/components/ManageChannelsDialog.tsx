@@ -0,0 +1,222 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { SlackService, WorkspaceChannel } from '@/services/slackService';
+import { ChannelService, RegisteredChannel } from '@/services/channelService';
+import { WelcomeRule, WelcomeRuleService } from '@/services/welcomeRuleService';
+import { useToast } from "@/hooks/use-toast";
+import { Hash, Loader2, Lock, Plus, Trash2, UserPlus } from 'lucide-react';
+import WelcomeRuleDialog from './WelcomeRuleDialog';
+
+const welcomeRuleService = new WelcomeRuleService();
+
+interface ManageChannelsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  channels: RegisteredChannel[];
+  channelService: ChannelService;
+  slackService: SlackService | null;
+  onChanged: () => void;
+}
+
+const ManageChannelsDialog: React.FC<ManageChannelsDialogProps> = ({
+  open,
+  onOpenChange,
+  channels,
+  channelService,
+  slackService,
+  onChanged
+}) => {
+  const [workspaceChannels, setWorkspaceChannels] = useState<WorkspaceChannel[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [search, setSearch] = useState('');
+  const [welcomeRules, setWelcomeRules] = useState<WelcomeRule[]>([]);
+  const [welcomeChannel, setWelcomeChannel] = useState<RegisteredChannel | null>(null);
+  const { toast } = useToast();
+
+  const registeredIds = new Set(channels.map(channel => channel.id));
+  const availableChannels = workspaceChannels
+    .filter(channel => !registeredIds.has(channel.id))
+    .filter(channel => channel.name.toLowerCase().includes(search.trim().toLowerCase().replace(/^#/, '')));
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadWorkspaceChannels = useCallback(async () => {
+    if (!slackService) return;
+
+    setLoading(true);
+    try {
+      setWorkspaceChannels(await slackService.getWorkspaceChannels());
+    } catch (error) {
+      showError(error, "Failed to load channels from Slack");
+    } finally {
+      setLoading(false);
+    }
+  }, [slackService, showError]);
+
+  useEffect(() => {
+    if (open) {
+      loadWorkspaceChannels();
+    }
+  }, [open, loadWorkspaceChannels]);
+
+  const loadWelcomeRules = useCallback(async () => {
+    try {
+      setWelcomeRules(await welcomeRuleService.getRules());
+    } catch (error) {
+      console.error('Error loading welcome rules:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      loadWelcomeRules();
+    }
+  }, [open, loadWelcomeRules]);
+
+  const welcomeRuleFor = (channelId: string) => welcomeRules.find(rule => rule.channelId === channelId) || null;
+
+  const addChannel = async (channel: WorkspaceChannel) => {
+    try {
+      await channelService.addChannel(channel.id, channel.name);
+      onChanged();
+      if (!channel.isMember) {
+        toast({
+          title: `Added #${channel.name}`,
+          description: "Invite the bot to this channel so it can read its members.",
+        });
+      }
+    } catch (error) {
+      showError(error, "Failed to add channel");
+    }
+  };
+
+  const removeChannel = async (channel: RegisteredChannel) => {
+    try {
+      await channelService.removeChannel(channel.id);
+      onChanged();
+    } catch (error) {
+      showError(error, "Failed to remove channel");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl">Channels</DialogTitle>
+          <DialogDescription>
+            Choose which Slack channels to track. Fetching new users reads the members of these channels.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div>
+            <h4 className="text-sm font-medium mb-2">Tracked channels</h4>
+            {channels.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No channels yet. Add one from the list below.</p>
+            ) : (
+              <div className="border rounded-lg divide-y">
+                {channels.map(channel => (
+                  <div key={channel.id} className="flex items-center justify-between px-4 py-2">
+                    <span className="flex items-center text-sm">
+                      <Hash className="h-4 w-4 mr-1 text-muted-foreground" />
+                      {channel.name}
+                      <span className="ml-2 text-xs text-muted-foreground">{channel.id}</span>
+                      {welcomeRuleFor(channel.id)?.enabled && (
+                        <Badge variant="secondary" className="ml-2">
+                          Welcome{welcomeRuleFor(channel.id).dryRun ? ' (dry run)' : ''}
+                        </Badge>
+                      )}
+                    </span>
+                    <span className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setWelcomeChannel(channel)}
+                        title={`Welcome new members of #${channel.name}`}
+                      >
+                        <UserPlus className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => removeChannel(channel)}
+                        title={`Stop tracking #${channel.name}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium mb-2">Add from workspace</h4>
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search channels..."
+              className="mb-2"
+            />
+            <ScrollArea className="h-[240px] border rounded-lg">
+              {loading ? (
+                <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Loading channels...
+                </div>
+              ) : availableChannels.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">No matching channels.</p>
+              ) : (
+                <div className="divide-y">
+                  {availableChannels.map(channel => (
+                    <div key={channel.id} className="flex items-center justify-between px-4 py-2">
+                      <span className="flex items-center text-sm">
+                        {channel.isPrivate
+                          ? <Lock className="h-4 w-4 mr-1 text-muted-foreground" />
+                          : <Hash className="h-4 w-4 mr-1 text-muted-foreground" />}
+                        {channel.name}
+                        {channel.numMembers !== undefined && (
+                          <span className="ml-2 text-xs text-muted-foreground">{channel.numMembers} members</span>
+                        )}
+                        {!channel.isMember && <Badge variant="outline" className="ml-2">Bot not a member</Badge>}
+                      </span>
+                      <Button variant="outline" size="sm" onClick={() => addChannel(channel)}>
+                        <Plus className="mr-1 h-4 w-4" />
+                        Add
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+
+        <WelcomeRuleDialog
+          open={welcomeChannel !== null}
+          onOpenChange={(isOpen) => !isOpen && setWelcomeChannel(null)}
+          channel={welcomeChannel}
+          rule={welcomeChannel && welcomeRuleFor(welcomeChannel.id)}
+          welcomeRuleService={welcomeRuleService}
+          onSaved={loadWelcomeRules}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManageChannelsDialog;
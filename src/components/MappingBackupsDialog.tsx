@@ -0,0 +1,171 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MappingBackup, MappingBackupService } from '@/services/mappingBackupService';
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+
+const mappingBackupService = new MappingBackupService();
+
+interface MappingBackupsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MappingBackupsDialog: React.FC<MappingBackupsDialogProps> = ({ open, onOpenChange }) => {
+  const [backups, setBackups] = useState<MappingBackup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<MappingBackup | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const { toast } = useToast();
+
+  const loadBackups = useCallback(async () => {
+    setLoading(true);
+    try {
+      setBackups(await mappingBackupService.getBackups());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load backups",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (open) {
+      loadBackups();
+    }
+  }, [open, loadBackups]);
+
+  // The mappings table refreshes itself from the live update stream
+  const confirmRestore = async () => {
+    if (!restoreTarget) return;
+
+    setRestoring(true);
+    try {
+      const { count } = await mappingBackupService.restoreBackup(restoreTarget.id);
+      toast({
+        title: "Mappings restored",
+        description: `Restored ${count} mappings from ${new Date(restoreTarget.createdAt).toLocaleString()}`,
+      });
+      setRestoreTarget(null);
+      loadBackups();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore backup",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-xl">Mapping Backups</DialogTitle>
+            <DialogDescription>
+              A snapshot of the user mappings is taken before every change. Restoring one replaces the current
+              mappings, which are backed up first.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={loadBackups} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          {backups.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              {loading ? 'Loading backups...' : 'No backups yet.'}
+            </p>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Taken</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>Mappings</TableHead>
+                    <TableHead className="w-[120px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {backups.map(backup => (
+                    <TableRow key={backup.id}>
+                      <TableCell className="whitespace-nowrap">{new Date(backup.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="max-w-[280px] truncate" title={backup.reason}>{backup.reason}</TableCell>
+                      <TableCell>{backup.count}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setRestoreTarget(backup)}
+                          disabled={restoring}
+                        >
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Restore
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={restoreTarget !== null} onOpenChange={(isOpen) => !isOpen && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this backup?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {restoreTarget && (
+                <>
+                  The current mappings will be replaced with the {restoreTarget.count} mappings
+                  from {new Date(restoreTarget.createdAt).toLocaleString()}. They are backed up first, so this can be
+                  undone from this list.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                confirmRestore();
+              }}
+              disabled={restoring}
+            >
+              {restoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default MappingBackupsDialog;
@@ -1,26 +1,66 @@
 
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { PenLine, Smile, Eye, Send } from "lucide-react";
+import { PenLine, Smile, Eye, Send, Clock } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TemplateSelection } from '@/services/templateService';
+import { UserMapping } from '@/services/slackService';
+import { BUILT_IN_PLACEHOLDERS, describeUnresolved, findUnresolvedRecipients, renderPlaceholders } from '@/lib/placeholders';
+import TemplatePicker from './TemplatePicker';
 
 interface MessageEditorProps {
-  defaultMessage: string;
-  onSend: (message: string) => Promise<void>;
+  // `postAt` (Unix seconds) is set when the user chose to schedule the message
+  onSend: (message: string, template?: TemplateSelection, postAt?: number) => Promise<void>;
   isLoading?: boolean;
+  sendLabel?: string;
+  // Users the message will go to; enables placeholder preview and validation
+  recipients?: UserMapping[];
 }
 
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Value for a datetime-local input: tomorrow at 09:00 local time
+const defaultScheduleTime = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T09:00`;
+};
+
 const MessageEditor: React.FC<MessageEditorProps> = ({ 
-  defaultMessage, 
   onSend,
-  isLoading = false
+  isLoading = false,
+  sendLabel = 'Send Message',
+  recipients = []
 }) => {
-  const [message, setMessage] = useState(defaultMessage);
+  const [message, setMessage] = useState('');
+  const [templateText, setTemplateText] = useState('');
+  const [template, setTemplate] = useState<TemplateSelection | undefined>();
   const [activeTab, setActiveTab] = useState<'edit' | 'preview'>('edit');
+  const [isScheduled, setIsScheduled] = useState(false);
+  const [scheduleTime, setScheduleTime] = useState(defaultScheduleTime);
+  const [previewUserId, setPreviewUserId] = useState<string | undefined>(recipients[0]?.userId);
   const { toast } = useToast();
+
+  const previewUser = recipients.find(user => user.userId === previewUserId) || recipients[0];
+
+  // Stable, so TemplatePicker only loads its templates once
+  const handleLoadTemplate = useCallback((text: string, selection: TemplateSelection) => {
+    setMessage(text);
+    setTemplateText(text);
+    setTemplate(selection);
+  }, []);
   
   const handleSend = async () => {
     if (!message.trim()) {
@@ -31,13 +71,34 @@ const MessageEditor: React.FC<MessageEditorProps> = ({
       });
       return;
     }
-    
-    try {
-      await onSend(message);
+
+    // Refuse to send anything if a placeholder can't be filled for someone
+    const unresolved = findUnresolvedRecipients(message, recipients);
+    if (unresolved.length > 0) {
       toast({
-        title: "Message sent",
-        description: "Your message has been sent successfully",
+        title: "Missing placeholder values",
+        description: describeUnresolved(unresolved),
+        variant: "destructive",
       });
+      return;
+    }
+    
+    let postAt: number | undefined;
+    if (isScheduled) {
+      postAt = Math.floor(new Date(scheduleTime).getTime() / 1000);
+      if (!postAt || postAt <= Date.now() / 1000) {
+        toast({
+          title: "Invalid schedule",
+          description: "Please pick a time in the future",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    
+    try {
+      // Only attribute the send to the template if it went out unedited
+      await onSend(message, message === templateText ? template : undefined, postAt);
     } catch (error) {
       toast({
         title: "Error sending message",
@@ -47,18 +108,22 @@ const MessageEditor: React.FC<MessageEditorProps> = ({
     }
   };
   
+  // Recipient fields (Slack names, custom fields) end up in this HTML, so the
+  // text is escaped before Slack markup is turned into tags
   const formatMessagePreview = (text: string) => {
-    const formattedText = text
+    const formattedText = escapeHtml(text)
       .replace(/\n/g, '<br>')
       .replace(/\*([^*]+)\*/g, '<strong>$1</strong>')
       .replace(/_([^_]+)_/g, '<em>$1</em>')
       .replace(/~([^~]+)~/g, '<strike>$1</strike>')
       .replace(/`([^`]+)`/g, '<code>$1</code>')
       .replace(/```([^```]+)```/g, '<pre>$1</pre>')
-      .replace(/<(https?:\/\/[^|>]+)\|([^>]+)>/g, '<a href="$1" target="_blank" rel="noopener noreferrer">$2</a>')
-      .replace(/<(https?:\/\/[^>]+)>/g, '<a href="$1" target="_blank" rel="noopener noreferrer">$1</a>')
-      .replace(/<#([A-Z0-9]+)>/g, '#channel')
-      .replace(/<@([A-Z0-9]+)>/g, '@user');
+      .replace(/&lt;(https?:\/\/[^|]+?)\|(.+?)&gt;/g, '<a href="$1" target="_blank" rel="noopener noreferrer">$2</a>')
+      .replace(/&lt;(https?:\/\/.+?)&gt;/g, '<a href="$1" target="_blank" rel="noopener noreferrer">$1</a>')
+      .replace(/&lt;#([A-Z0-9]+)&gt;/g, '#channel')
+
+      .replace(/&lt;@([A-Z0-9]+)&gt;/g, '@user')
+      .replace(/\{\{\s*([\w.-]+)\s*\}\}/g, '<mark class="bg-amber-100 text-amber-800">{{$1}}</mark>');
       
     return { __html: formattedText };
   };
@@ -89,9 +154,16 @@ const MessageEditor: React.FC<MessageEditorProps> = ({
         <CardContent className="pt-4">
           <TabsContent value="edit" className="mt-0">
             <div className="space-y-4">
+              <TemplatePicker
+                message={message}
+                onLoadTemplate={handleLoadTemplate}
+              />
               <p className="text-sm text-muted-foreground">
                 Supports Slack formatting: *bold*, _italic_, ~strikethrough~, `code`, and links like &lt;https://example.com|text&gt;
               </p>
+              <p className="text-sm text-muted-foreground">
+                Placeholders: {BUILT_IN_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}, plus any custom field of the recipient
+              </p>
               <Textarea 
                 value={message}
                 onChange={(e) => setMessage(e.target.value)}
@@ -117,10 +189,29 @@ const MessageEditor: React.FC<MessageEditorProps> = ({
           </TabsContent>
           
           <TabsContent value="preview" className="mt-0">
+            {recipients.length > 0 && (
+              <div className="flex items-center gap-2 mb-4">
+                <span className="text-sm text-muted-foreground">Preview as</span>
+                <Select value={previewUser?.userId} onValueChange={setPreviewUserId}>
+                  <SelectTrigger className="w-[260px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {recipients.map(user => (
+                      <SelectItem key={user.userId} value={user.userId}>
+                        {user.realName} ({user.slackTag})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="border rounded-md p-4 min-h-[300px] bg-white">
               <div 
                 className="slack-message-preview text-sm"
-                dangerouslySetInnerHTML={formatMessagePreview(message)}
+                dangerouslySetInnerHTML={formatMessagePreview(
+                  previewUser ? renderPlaceholders(message, previewUser).text : message
+                )}
               />
             </div>
           </TabsContent>
@@ -131,24 +222,41 @@ const MessageEditor: React.FC<MessageEditorProps> = ({
         <Button
           variant="outline"
           size="sm"
+          disabled={!template || message === templateText}
           onClick={() => {
-            setMessage(defaultMessage);
+            setMessage(templateText);
             toast({
-              title: "Reset to default",
-              description: "Message has been reset to the default template",
+              title: "Changes discarded",
+              description: "Message has been reverted to the selected template",
             });
           }}
         >
-          Reset to default
-        </Button>
-        <Button 
-          onClick={handleSend}
-          disabled={isLoading || !message.trim()}
-          className="flex items-center"
-        >
-          {isLoading ? 'Sending...' : 'Send Message'}
-          <Send className="ml-2 h-4 w-4" />
+          Revert to template
         </Button>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={isScheduled}
+              onCheckedChange={(checked) => setIsScheduled(checked === true)}
+            />
+            Schedule for
+          </label>
+          <Input
+            type="datetime-local"
+            value={scheduleTime}
+            onChange={(e) => setScheduleTime(e.target.value)}
+            disabled={!isScheduled}
+            className="w-[200px]"
+          />
+          <Button 
+            onClick={handleSend}
+            disabled={isLoading || !message.trim() || (isScheduled && !scheduleTime)}
+            className="flex items-center"
+          >
+            {isLoading ? (isScheduled ? 'Scheduling...' : 'Sending...') : (isScheduled ? 'Schedule' : sendLabel)}
+            {isScheduled ? <Clock className="ml-2 h-4 w-4" /> : <Send className="ml-2 h-4 w-4" />}
+          </Button>
+        </div>
       </CardFooter>
     </Card>
   );
@@ -0,0 +1,334 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MessageHistoryEntry, SlackService, UserMapping } from '@/services/slackService';
+import { describeUnresolved, findUnresolvedRecipients, renderPlaceholders } from '@/lib/placeholders';
+import { isDelivered } from '@/lib/messageHistory';
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Loader2, Pencil, Trash2 } from 'lucide-react';
+
+interface MessageHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  history: MessageHistoryEntry[];
+  users: UserMapping[];
+  slackService: SlackService | null;
+  onChanged: () => void;
+}
+
+interface SendGroup {
+  key: string;
+  sentAt: string;
+  entries: MessageHistoryEntry[];
+}
+
+// A "send" is one bulk job, or a single DM sent on its own
+const groupBySend = (history: MessageHistoryEntry[]): SendGroup[] => {
+  const groups = new Map<string, SendGroup>();
+  history.forEach(entry => {
+    const key = entry.jobId || entry.id;
+    if (!groups.has(key)) {
+      groups.set(key, { key, sentAt: entry.sentAt, entries: [] });
+    }
+    groups.get(key).entries.push(entry);
+  });
+  return [...groups.values()];
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+// The unrendered text the entries were all sent from, so an edit can be
+// re-rendered per recipient; null if they differ. Entries recorded before the
+// unrendered text was kept only have their rendered text.
+const sharedSourceText = (entries: MessageHistoryEntry[]): string | null => {
+  const sources = new Set(entries.map(entry => entry.sourceText ?? entry.text));
+  return sources.size === 1 ? [...sources][0] : null;
+};
+
+const MessageHistoryDialog: React.FC<MessageHistoryDialogProps> = ({
+  open,
+  onOpenChange,
+  history,
+  users,
+  slackService,
+  onChanged
+}) => {
+  // Entries the pending edit or delete applies to: one message or a whole send
+  const [editTargets, setEditTargets] = useState<MessageHistoryEntry[] | null>(null);
+  const [deleteTargets, setDeleteTargets] = useState<MessageHistoryEntry[] | null>(null);
+  const [editText, setEditText] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const { toast } = useToast();
+  // Viewing history is open to everyone; editing or retracting needs a sender
+  const canChange = useAuth().hasRole('sender');
+
+  const usersById = new Map(users.map(user => [user.userId, user]));
+  const groups = groupBySend(history);
+
+  const userLabel = (userId: string) => {
+    const user = usersById.get(userId);
+    return user ? `${user.realName} (${user.slackTag})` : userId;
+  };
+
+  const editable = (entries: MessageHistoryEntry[]) => entries.filter(entry => entry.status === 'sent');
+
+  const canEditAll = (entries: MessageHistoryEntry[]) =>
+    editable(entries).length > 0 && sharedSourceText(editable(entries)) !== null;
+
+  const startEdit = (entries: MessageHistoryEntry[]) => {
+    setEditText(sharedSourceText(entries) ?? '');
+    setEditTargets(entries);
+  };
+
+  // Apply `action` to each entry in turn and report how many succeeded
+  const runForEach = async (
+    entries: MessageHistoryEntry[],
+    action: (entry: MessageHistoryEntry) => Promise<unknown>,
+    verb: string
+  ) => {
+    setIsWorking(true);
+    let failed = 0;
+
+    for (const entry of entries) {
+      try {
+        await action(entry);
+      } catch (error) {
+        console.error(`Error trying to ${verb} message ${entry.id}:`, error);
+        failed++;
+      }
+    }
+
+    setIsWorking(false);
+    onChanged();
+
+    toast({
+      title: failed > 0 ? `Some messages could not be ${verb}d` : `Message${entries.length === 1 ? '' : 's'} ${verb}d`,
+      description: `${entries.length - failed} of ${entries.length} ${verb}d${failed > 0 ? `, ${failed} failed` : ''}.`,
+      variant: failed > 0 ? "destructive" : "default",
+    });
+  };
+
+  const submitEdit = async () => {
+    if (!slackService || !editTargets || !editText.trim()) return;
+
+    // Placeholders are re-rendered per recipient, just like a fresh send
+    const recipients = editTargets.map(entry => usersById.get(entry.userId)).filter(Boolean);
+    const unresolved = findUnresolvedRecipients(editText, recipients);
+    if (unresolved.length > 0) {
+      toast({
+        title: "Missing placeholder values",
+        description: describeUnresolved(unresolved),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await runForEach(editTargets, (entry) => {
+      const user = usersById.get(entry.userId);
+      const text = user ? renderPlaceholders(editText, user).text : editText;
+      return slackService.updateSentMessage(entry.id, text, editText);
+    }, 'update');
+    setEditTargets(null);
+  };
+
+  const confirmDelete = async () => {
+    if (!slackService || !deleteTargets) return;
+
+    await runForEach(deleteTargets, (entry) => slackService.deleteSentMessage(entry.id), 'delete');
+    setDeleteTargets(null);
+  };
+
+  const renderStatus = (entry: MessageHistoryEntry) => {
+    if (entry.status === 'failed') {
+      return <Badge variant="destructive" title={entry.error}>Failed</Badge>;
+    }
+    if (entry.status === 'deleted') {
+      return <Badge variant="outline">Deleted</Badge>;
+    }
+    if (entry.status === 'scheduled' && isDelivered(entry)) {
+      return (
+        <Badge variant="secondary" title={`Delivered by Slack at ${new Date(entry.postAt * 1000).toLocaleString()}`}>
+          Delivered
+        </Badge>
+      );
+    }
+    if (entry.status === 'scheduled') {
+      return (
+        <Badge variant="outline" title={entry.postAt ? new Date(entry.postAt * 1000).toLocaleString() : undefined}>
+          Scheduled
+        </Badge>
+      );
+    }
+    if (entry.status === 'cancelled') {
+      return <Badge variant="outline">Cancelled</Badge>;
+    }
+    return <Badge variant="secondary">{entry.editedAt ? 'Edited' : 'Sent'}</Badge>;
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-xl">Message History</DialogTitle>
+            <DialogDescription>
+              Every direct message sent from this app. Sent messages can be corrected or retracted in Slack.
+            </DialogDescription>
+          </DialogHeader>
+
+          {groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No messages have been sent yet.</p>
+          ) : (
+            <div className="space-y-6">
+              {groups.map(group => (
+                <div key={group.key} className="border rounded-lg overflow-hidden">
+                  <div className="flex justify-between items-center px-4 py-2 bg-muted/50">
+                    <span className="text-sm font-medium">
+                      {formatDate(group.sentAt)} · {group.entries.length} {group.entries.length === 1 ? 'recipient' : 'recipients'}
+                    </span>
+                    {canChange && group.entries.length > 1 && (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => startEdit(editable(group.entries))}
+                          disabled={isWorking || !canEditAll(group.entries)}
+                          title={editable(group.entries).length > 0 && !canEditAll(group.entries)
+                            ? "These messages no longer share one text; edit them one at a time"
+                            : undefined}
+                        >
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Edit all
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setDeleteTargets(editable(group.entries))}
+                          disabled={isWorking || editable(group.entries).length === 0}
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete all
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Recipient</TableHead>
+                        <TableHead>Message</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="w-[100px]"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.entries.map(entry => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="whitespace-nowrap">{userLabel(entry.userId)}</TableCell>
+                          <TableCell className="max-w-[320px] truncate" title={entry.text}>{entry.text}</TableCell>
+                          <TableCell>{renderStatus(entry)}</TableCell>
+                          <TableCell>
+                            {canChange && entry.status === 'sent' && (
+                              <div className="flex gap-1">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-8 w-8 p-0"
+                                  onClick={() => startEdit([entry])}
+                                  disabled={isWorking}
+                                  title="Edit message"
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-8 w-8 p-0"
+                                  onClick={() => setDeleteTargets([entry])}
+                                  disabled={isWorking}
+                                  title="Delete message"
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editTargets !== null} onOpenChange={(isOpen) => !isOpen && setEditTargets(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              Edit message{editTargets && editTargets.length > 1 ? ` for ${editTargets.length} recipients` : ''}
+            </DialogTitle>
+            <DialogDescription>
+              The message is updated in place in each recipient's DM. Placeholders like {'{{firstName}}'} are filled in per recipient.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={editText}
+            onChange={(e) => setEditText(e.target.value)}
+            className="min-h-[240px] font-mono text-sm"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditTargets(null)} disabled={isWorking}>Cancel</Button>
+            <Button onClick={submitEdit} disabled={isWorking || !editText.trim()} className="flex items-center">
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Update message
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteTargets !== null} onOpenChange={(isOpen) => !isOpen && setDeleteTargets(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {deleteTargets && deleteTargets.length > 1 ? `${deleteTargets.length} messages` : 'this message'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The message will be removed from the recipient's Slack DM. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWorking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                confirmDelete();
+              }}
+              disabled={isWorking}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default MessageHistoryDialog;
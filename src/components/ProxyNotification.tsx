@@ -12,6 +12,7 @@ const ProxyNotification: React.FC = () => {
         <p>To bypass CORS restrictions, this app requires a proxy server.</p>
         <ol className="list-decimal pl-5 mt-2 space-y-1">
           <li>Set your Slack token in the <code>.env</code> file</li>
+          <li>Create a login with <code>npm run add-user -- &lt;username&gt;</code></li>
           <li>Run <code>node server.js</code> in a terminal</li>
           <li>Keep that terminal open while using the app</li>
         </ol>
@@ -0,0 +1,156 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MessageHistoryEntry, ScheduledMessage, SlackService, UserMapping } from '@/services/slackService';
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Ban, Loader2, RefreshCw } from 'lucide-react';
+
+interface ScheduledMessagesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  history: MessageHistoryEntry[];
+  users: UserMapping[];
+  slackService: SlackService | null;
+  onChanged: () => void;
+}
+
+const ScheduledMessagesDialog: React.FC<ScheduledMessagesDialogProps> = ({
+  open,
+  onOpenChange,
+  history,
+  users,
+  slackService,
+  onChanged
+}) => {
+  const [scheduled, setScheduled] = useState<ScheduledMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const canCancel = useAuth().hasRole('sender');
+
+  // Slack only reports the DM channel, so map it back to a user via our history
+  const userIdByChannel = new Map(
+    history.filter(entry => entry.channel).map(entry => [entry.channel, entry.userId])
+  );
+  const usersById = new Map(users.map(user => [user.userId, user]));
+
+  const recipientLabel = (channel: string) => {
+    const userId = userIdByChannel.get(channel);
+    const user = userId && usersById.get(userId);
+    return user ? `${user.realName} (${user.slackTag})` : userId || channel;
+  };
+
+  const loadScheduled = useCallback(async () => {
+    if (!slackService) return;
+
+    setLoading(true);
+    try {
+      const messages = await slackService.getScheduledMessages();
+      setScheduled([...messages].sort((a, b) => a.postAt - b.postAt));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load scheduled messages",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [slackService, toast]);
+
+  useEffect(() => {
+    if (open) {
+      loadScheduled();
+    }
+  }, [open, loadScheduled]);
+
+  const cancelMessage = async (message: ScheduledMessage) => {
+    if (!slackService) return;
+
+    setCancellingId(message.id);
+    try {
+      await slackService.cancelScheduledMessage(message.id, message.channel);
+      setScheduled(prev => prev.filter(m => m.id !== message.id));
+      onChanged();
+      toast({
+        title: "Scheduled message cancelled",
+        description: `The message to ${recipientLabel(message.channel)} will not be sent`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel scheduled message",
+        variant: "destructive",
+      });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl">Scheduled Messages</DialogTitle>
+          <DialogDescription>
+            Messages waiting in Slack to be delivered. Cancelling removes them before they are sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={loadScheduled} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {scheduled.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            {loading ? 'Loading scheduled messages...' : 'No messages are scheduled.'}
+          </p>
+        ) : (
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead>Send At</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead className="w-[120px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scheduled.map(message => (
+                  <TableRow key={message.id}>
+                    <TableCell className="whitespace-nowrap">{recipientLabel(message.channel)}</TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(message.postAt * 1000).toLocaleString()}</TableCell>
+                    <TableCell className="max-w-[320px] truncate" title={message.text}>{message.text}</TableCell>
+                    <TableCell>
+                      {canCancel && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => cancelMessage(message)}
+                          disabled={cancellingId !== null}
+                        >
+                          {cancellingId === message.id
+                            ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            : <Ban className="mr-2 h-4 w-4" />}
+                          Cancel
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduledMessagesDialog;
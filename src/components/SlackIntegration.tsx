@@ -1,81 +1,240 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { SlackService, UserMapping } from '@/services/slackService';
-import { Loader2, Download, Check, HelpCircle, UserPlus } from 'lucide-react';
+import { SlackService, SyncRun, SyncUserChange, UserMapping } from '@/services/slackService';
+import { ChannelService, RegisteredChannel } from '@/services/channelService';
+import { MappingConflictError, MappingService } from '@/services/mappingService';
+import { deliveryTime, isDelivered } from '@/lib/messageHistory';
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Download, Check, HelpCircle, UserPlus, Send, History, Clock, Hash, ArchiveRestore, Pencil, Trash2 } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  HISTORY_QUERY_KEY,
+  MAPPINGS_QUERY_KEY,
+  SYNC_RUN_QUERY_KEY,
+  SYNC_RUNS_QUERY_KEY,
+  useLiveUpdates
+} from "@/hooks/use-live-updates";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import ProxyNotification from './ProxyNotification';
 import SendMessageButton from './SendMessageButton';
+import BulkSendDialog from './BulkSendDialog';
+import MessageHistoryDialog from './MessageHistoryDialog';
+import ScheduledMessagesDialog from './ScheduledMessagesDialog';
+import ManageChannelsDialog from './ManageChannelsDialog';
+import MappingBackupsDialog from './MappingBackupsDialog';
+import EditMappingDialog from './EditMappingDialog';
+
+const channelService = new ChannelService();
+const mappingService = new MappingService();
 
 const SlackIntegration = () => {
   const [loading, setLoading] = useState(false);
-  const [users, setUsers] = useState<UserMapping[]>([]);
+  const queryClient = useQueryClient();
   const [exportFormat, setExportFormat] = useState<'csv'|'text'>('csv');
   const { toast } = useToast();
-  const [activeTab, setActiveTab] = useState<'all'|'new'>('all');
+  const { hasRole } = useAuth();
+  const [activeTab, setActiveTab] = useState<'all'|'new'|'departed'>('all');
   const [slackService, setSlackService] = useState<SlackService | null>(null);
+  const [selectedUserIds, setSelectedUserIds] = useState<Set<string>>(new Set());
+  const [bulkSendOpen, setBulkSendOpen] = useState(false);
+  // Snapshot of the selection taken when the bulk dialog opens, so refreshed
+  // history or filters can't change the recipient list mid-send
+  const [bulkRecipients, setBulkRecipients] = useState<UserMapping[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [scheduledOpen, setScheduledOpen] = useState(false);
+  const [messagedFilter, setMessagedFilter] = useState<'any'|'messaged'|'not-messaged'>('any');
+  const [channels, setChannels] = useState<RegisteredChannel[]>([]);
+  const [selectedChannelId, setSelectedChannelId] = useState<string>('all');
+  const [manageChannelsOpen, setManageChannelsOpen] = useState(false);
+  const [backupsOpen, setBackupsOpen] = useState(false);
+  const [editingMapping, setEditingMapping] = useState<UserMapping | null>(null);
+  const [removingMapping, setRemovingMapping] = useState<UserMapping | null>(null);
+  const [removing, setRemoving] = useState(false);
+
+  // Mappings, history and sync runs are server state; the live update stream
+  // invalidates them whenever anyone (or anything) changes them
+  useLiveUpdates();
+
+  const { data: users = [], isError: mappingsFailed } = useQuery({
+    queryKey: MAPPINGS_QUERY_KEY,
+    queryFn: () => mappingService.getMappings(),
+  });
+
+  const { data: history = [] } = useQuery({
+    queryKey: HISTORY_QUERY_KEY,
+    queryFn: () => slackService.getMessageHistory(),
+    enabled: slackService !== null,
+  });
+
+  // Finished syncs from the last day, manual or scheduled
+  const { data: recentRuns = [] } = useQuery({
+    queryKey: SYNC_RUNS_QUERY_KEY,
+    queryFn: () => slackService.getSyncRuns(new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()),
+    enabled: slackService !== null,
+  });
+
+  // The latest run, whoever started it; progress arrives over the update stream
+  const { data: syncRun = null } = useQuery({
+    queryKey: SYNC_RUN_QUERY_KEY,
+    queryFn: () => slackService.getSyncRun(),
+    enabled: slackService !== null,
+  });
+  const syncing = loading || syncRun?.status === 'running';
+
+  // Most recent DM per user that was delivered or is scheduled to be, so a
+  // pending one also keeps them out of "not messaged"; history is already
+  // newest first
+  const lastMessaged = new Map<string, { at: string; delivered: boolean }>();
+  history
+    .filter(entry => entry.status === 'sent' || entry.status === 'scheduled')
+    .forEach(entry => {
+      if (!lastMessaged.has(entry.userId)) {
+        lastMessaged.set(entry.userId, { at: deliveryTime(entry), delivered: isDelivered(entry) });
+      }
+    });
 
+  const matchesMessagedFilter = (user: UserMapping) =>
+    messagedFilter === 'any' ||
+    (messagedFilter === 'messaged') === lastMessaged.has(user.userId);
+
+  const recentChanges = {
+    joined: recentRuns.flatMap(run => run.changes.joined),
+    left: recentRuns.flatMap(run => run.changes.left),
+    updated: recentRuns.flatMap(run => run.changes.updated),
+  };
+  const describeChanges = (changes: SyncUserChange[]) => changes.map(change => change.realName).join(', ');
+
+  const selectedChannel = channels.find(channel => channel.id === selectedChannelId);
+  const channelUsers = selectedChannel
+    ? users.filter(user => user.channels?.includes(selectedChannel.id))
+    : users;
+
+  // People who left or were deactivated stay in the mappings but only show up
+  // on the Departed tab
+  const activeUsers = channelUsers.filter(user => !user.status || user.status === 'active');
   const today = new Date().toISOString().split('T')[0];
-  const newUsers = users.filter(user => user.addedOn === today);
+  const allUsers = activeUsers.filter(matchesMessagedFilter);
+  const newUsers = activeUsers.filter(user => user.addedOn === today).filter(matchesMessagedFilter);
+  const departedUsers = channelUsers
+    .filter(user => user.status === 'left' || user.status === 'deactivated')
+    .filter(matchesMessagedFilter);
+  const visibleUsers = activeTab === 'new' ? newUsers : activeTab === 'departed' ? departedUsers : allUsers;
+  const selectedUsers = visibleUsers.filter(user => selectedUserIds.has(user.userId));
 
   useEffect(() => {
-    // Initialize SlackService
-    const service = new SlackService();
-    setSlackService(service);
-
-    // Load existing mappings
-    const loadExistingMappings = async () => {
-      try {
-        const response = await fetch('http://localhost:3001/api/mappings');
-        if (response.ok) {
-          const data = await response.json();
-          if (Array.isArray(data) && data.length > 0) {
-            setUsers(data);
-          }
-        }
-      } catch (error) {
-        console.error('Error loading existing mappings:', error);
-        toast({
-          title: "Error",
-          description: "Failed to load existing mappings. Please check if the server is running.",
-          variant: "destructive",
-        });
-      }
-    };
+    if (mappingsFailed) {
+      toast({
+        title: "Error",
+        description: "Failed to load existing mappings. Please check if the server is running.",
+        variant: "destructive",
+      });
+    }
+  }, [mappingsFailed, toast]);
 
-    loadExistingMappings();
-  }, [toast]);
+  const loadChannels = useCallback(async () => {
+    try {
+      const data = await channelService.getChannels();
+      setChannels(data);
+      // Fall back to all channels if the selected one was removed
+      setSelectedChannelId(prev => data.some(channel => channel.id === prev) ? prev : 'all');
+    } catch (error) {
+      console.error('Error loading channels:', error);
+    }
+  }, []);
 
-  const fetchUsers = async () => {
-    if (!slackService) return;
-    
+  useEffect(() => {
+    // Initialize SlackService once the proxy reports whether it has a bot token
+    SlackService.create().then(setSlackService);
+    loadChannels();
+  }, [loadChannels]);
+
+  // Refetch right away after our own sends; other operators' arrive over the stream
+  const loadHistory = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY });
+  }, [queryClient]);
+
+  const reloadMappings = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: MAPPINGS_QUERY_KEY });
+  }, [queryClient]);
+
+  // Removes one departed user's record, unless it changed since it was listed
+  const confirmRemoveMapping = async () => {
+    if (!removingMapping) return;
+
+    setRemoving(true);
+    try {
+      await mappingService.deleteMapping(removingMapping.userId, removingMapping.version);
+      toast({
+        title: "Mapping removed",
+        description: `${removingMapping.realName} was removed from the mappings`,
+      });
+    } catch (error) {
+      toast({
+        title: error instanceof MappingConflictError ? "Mapping changed" : "Error",
+        description: error instanceof MappingConflictError
+          ? "Someone else changed this mapping, so it was not removed. Check it and try again."
+          : error instanceof Error ? error.message : "Failed to remove mapping",
+        variant: "destructive",
+      });
+    } finally {
+      setRemoving(false);
+      setRemovingMapping(null);
+      reloadMappings();
+    }
+  };
+
+  // Follow a sync we started to the end, then report what it found
+  const followSync = useCallback(async (service: SlackService, run: SyncRun) => {
     setLoading(true);
+    const setRun = (update: SyncRun) => queryClient.setQueryData(SYNC_RUN_QUERY_KEY, update);
+    setRun(run);
     try {
-      const userMappings = await slackService.mapUserTagsToIds();
-      
-      // Merge new users with existing ones, preserving addedOn dates
-      const existingUserIds = new Set(users.map(user => user.userId));
-      const newMappings = userMappings.filter(mapping => !existingUserIds.has(mapping.userId));
-      
-      if (newMappings.length > 0) {
-        setUsers(prevUsers => [...prevUsers, ...newMappings]);
+      const finished = run.status === 'running' ? await service.watchSync(setRun) : run;
+      await queryClient.invalidateQueries({ queryKey: MAPPINGS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: SYNC_RUNS_QUERY_KEY });
+
+      const failedChannels = finished.channels.filter(channel => channel.status === 'failed');
+      const failures = failedChannels.map(channel => `#${channel.name}: ${channel.error}`).join('; ');
+      const source = finished.channels.length === 1 ? `#${finished.channels[0].name}` : 'your channels';
+
+      if (finished.status === 'failed') {
+        toast({
+          title: "Error",
+          description: finished.error || failures || "Failed to fetch users from Slack",
+          variant: "destructive",
+        });
+      } else if (finished.changes.joined.length > 0) {
         setActiveTab('new');
         
         toast({
           title: "Success!",
-          description: `Added ${newMappings.length} new users to the channel.`,
+          description: `Added ${finished.changes.joined.length} new users from ${source}.${failures ? ` Some channels failed: ${failures}` : ''}`,
         });
       } else {
         toast({
           title: "No new users",
-          description: "All users are already in the list.",
+          description: `All users are already in the list.${failures ? ` Some channels failed: ${failures}` : ''}`,
         });
       }
     } catch (error) {
-      console.error('Error fetching users:', error);
+      console.error('Error following sync:', error);
       toast({
         title: "Error",
         description: error instanceof Error ? error.message : "Failed to fetch users from Slack",
@@ -84,6 +243,34 @@ const SlackIntegration = () => {
     } finally {
       setLoading(false);
     }
+  }, [queryClient, toast]);
+
+  const fetchUsers = async () => {
+    if (!slackService) return;
+
+    const channelsToFetch = selectedChannel ? [selectedChannel] : channels;
+    if (channelsToFetch.length === 0) {
+      toast({
+        title: "No channels",
+        description: "Add a channel to track before fetching users.",
+        variant: "destructive",
+      });
+      setManageChannelsOpen(true);
+      return;
+    }
+    
+    try {
+      // The server does the fetching and merging; we only follow its progress
+      const run = await slackService.startSync(channelsToFetch.map(channel => channel.id));
+      await followSync(slackService, run);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch users from Slack",
+        variant: "destructive",
+      });
+    }
   };
 
   const exportData = () => {
@@ -96,20 +283,20 @@ const SlackIntegration = () => {
       return;
     }
 
-    const usersToExport = activeTab === 'new' ? newUsers : users;
+    const usersToExport = visibleUsers;
     
     let content = '';
     const filename = `slack-user-mappings-${new Date().toISOString().slice(0, 10)}`;
 
     if (exportFormat === 'csv') {
-      content = 'Full Name,Slack Tag,Added On\n';
+      content = 'Full Name,Slack Tag,Added On,Status,Left On\n';
       content += usersToExport.map(user => 
-        `"${user.realName}","${user.slackTag}","${user.addedOn || 'N/A'}"`
+        `"${user.realName}","${user.slackTag}","${user.addedOn || 'N/A'}","${user.status || 'active'}","${user.leftOn || ''}"`
       ).join('\n');
       downloadFile(`${filename}.csv`, content, 'text/csv');
     } else {
       content = usersToExport.map(user => 
-        `${user.realName} / ${user.slackTag} (Added: ${user.addedOn || 'N/A'})`
+        `${user.realName} / ${user.slackTag} (Added: ${user.addedOn || 'N/A'}${user.leftOn ? `, ${user.status === 'deactivated' ? 'Deactivated' : 'Left'}: ${user.leftOn}` : ''})`
       ).join('\n');
       downloadFile(`${filename}.txt`, content, 'text/plain');
     }
@@ -120,6 +307,148 @@ const SlackIntegration = () => {
     });
   };
 
+  const toggleUserSelected = (userId: string, selected: boolean) => {
+    setSelectedUserIds(prev => {
+      const next = new Set(prev);
+      if (selected) {
+        next.add(userId);
+      } else {
+        next.delete(userId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllSelected = (rows: UserMapping[], selected: boolean) => {
+    setSelectedUserIds(selected ? new Set(rows.map(user => user.userId)) : new Set());
+  };
+
+  const renderUserTable = (rows: UserMapping[]) => {
+    const allSelected = rows.length > 0 && rows.every(user => selectedUserIds.has(user.userId));
+
+    return (
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[40px]">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => toggleAllSelected(rows, checked === true)}
+                  aria-label="Select all users"
+                />
+              </TableHead>
+              <TableHead>Full Name</TableHead>
+              <TableHead>Slack Tag</TableHead>
+              <TableHead>Added On</TableHead>
+              <TableHead>Messaged</TableHead>
+              <TableHead className="w-[140px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((user) => (
+              <TableRow key={user.userId} data-state={selectedUserIds.has(user.userId) ? 'selected' : undefined}>
+                <TableCell>
+                  <Checkbox
+                    checked={selectedUserIds.has(user.userId)}
+                    onCheckedChange={(checked) => toggleUserSelected(user.userId, checked === true)}
+                    aria-label={`Select ${user.realName}`}
+                  />
+                </TableCell>
+                <TableCell>{user.realName}</TableCell>
+                <TableCell>{user.slackTag}</TableCell>
+                <TableCell>{user.addedOn || 'N/A'}</TableCell>
+                <TableCell>
+                  {lastMessaged.get(user.userId)?.delivered ? (
+                    <span className="flex items-center text-green-600" title={lastMessaged.get(user.userId).at}>
+                      <Check className="h-4 w-4 mr-1" />
+                      {lastMessaged.get(user.userId).at.split('T')[0]}
+                    </span>
+                  ) : lastMessaged.has(user.userId) ? (
+                    <span className="flex items-center text-muted-foreground" title={`Scheduled for ${lastMessaged.get(user.userId).at}`}>
+                      <Clock className="h-4 w-4 mr-1" />
+                      {lastMessaged.get(user.userId).at.split('T')[0]}
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">No</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <SendMessageButton 
+                      user={user} 
+                      slackService={slackService} 
+                      onSent={loadHistory}
+                    />
+                    {hasRole('mapper') && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditingMapping(user)}
+                        title="Edit custom fields"
+                        aria-label={`Edit ${user.realName}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  };
+
+  // Departed users can't be messaged, so there is nothing to select; mappers
+  // can remove records they no longer need
+  const renderDepartedTable = (rows: UserMapping[]) => (
+    <div className="border rounded-lg overflow-hidden">
+      <Table>
+        {rows.length === 0 && <TableCaption className="pb-4">Nobody has left or been deactivated.</TableCaption>}
+        <TableHeader>
+          <TableRow>
+            <TableHead>Full Name</TableHead>
+            <TableHead>Slack Tag</TableHead>
+            <TableHead>Added On</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Left On</TableHead>
+            {hasRole('mapper') && <TableHead className="w-[60px]"></TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((user) => (
+            <TableRow key={user.userId}>
+              <TableCell>{user.realName}</TableCell>
+              <TableCell>{user.slackTag}</TableCell>
+              <TableCell>{user.addedOn || 'N/A'}</TableCell>
+              <TableCell>
+                <Badge variant={user.status === 'deactivated' ? 'destructive' : 'secondary'}>
+                  {user.status === 'deactivated' ? 'Deactivated' : 'Left'}
+                </Badge>
+              </TableCell>
+              <TableCell>{user.leftOn || 'N/A'}</TableCell>
+              {hasRole('mapper') && (
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRemovingMapping(user)}
+                    title="Remove from mappings"
+                    aria-label={`Remove ${user.realName}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
   const downloadFile = (filename: string, content: string, contentType: string) => {
     const blob = new Blob([content], { type: contentType });
     const url = URL.createObjectURL(blob);
@@ -138,10 +467,20 @@ const SlackIntegration = () => {
         <CardHeader>
           <CardTitle className="text-xl">Slack Channel User Mapper</CardTitle>
           <CardDescription>
-            {users.length > 0 
-              ? `Showing ${users.length} users from the channel`
-              : "Connect to Slack and retrieve users from a channel"}
+            {activeUsers.length > 0 
+              ? `Showing ${activeUsers.length} users from ${selectedChannel ? `#${selectedChannel.name}` : `${channels.length} ${channels.length === 1 ? 'channel' : 'channels'}`}`
+              : "Connect to Slack and retrieve users from your channels"}
           </CardDescription>
+          {recentRuns.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Since yesterday:{' '}
+              <span title={describeChanges(recentChanges.joined)}>{recentChanges.joined.length} joined</span>,{' '}
+              <span title={describeChanges(recentChanges.left)}>{recentChanges.left.length} left</span>,{' '}
+              <span title={describeChanges(recentChanges.updated)}>
+                {recentChanges.updated.length} {recentChanges.updated.length === 1 ? 'profile change' : 'profile changes'}
+              </span>
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           <ProxyNotification />
@@ -151,21 +490,57 @@ const SlackIntegration = () => {
               <HelpCircle className="h-4 w-4 text-amber-600" />
               <AlertTitle className="text-amber-800">Configuration Required</AlertTitle>
               <AlertDescription className="text-amber-700">
-                Please ensure you have set up your .env file with SLACK_BOT_TOKEN and SLACK_CHANNEL_ID.
+                Please ensure you have set up your .env file with SLACK_BOT_TOKEN and added at least one channel to track.
               </AlertDescription>
             </Alert>
           )}
 
-          <div className="flex justify-center">
+          <div className="flex justify-center items-center gap-2">
+            <Select value={selectedChannelId} onValueChange={(value) => {
+              setSelectedChannelId(value);
+              setSelectedUserIds(new Set());
+            }}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All channels ({channels.length})</SelectItem>
+                {channels.map(channel => (
+                  <SelectItem key={channel.id} value={channel.id}>#{channel.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {hasRole('admin') && (
+              <Button
+                variant="outline"
+                onClick={() => setManageChannelsOpen(true)}
+                className="flex items-center"
+              >
+                <Hash className="mr-2 h-4 w-4" />
+                Channels
+              </Button>
+            )}
+            {hasRole('admin') && (
+              <Button
+                variant="outline"
+                onClick={() => setBackupsOpen(true)}
+                className="flex items-center"
+              >
+                <ArchiveRestore className="mr-2 h-4 w-4" />
+                Backups
+              </Button>
+            )}
             <Button
               onClick={fetchUsers}
-              disabled={loading || !slackService}
+              disabled={syncing || !slackService || !hasRole('mapper')}
+              title={hasRole('mapper') ? undefined : 'Requires the mapper role'}
               className="flex items-center gap-2"
             >
-              {loading ? (
+              {syncing ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
                   Fetching New Users...
+                  {syncRun?.status === 'running' && syncRun.total > 0 && ` ${syncRun.done} / ${syncRun.total}`}
                 </>
               ) : (
                 <>
@@ -176,11 +551,84 @@ const SlackIntegration = () => {
             </Button>
           </div>
 
+          <ManageChannelsDialog
+            open={manageChannelsOpen}
+            onOpenChange={setManageChannelsOpen}
+            channels={channels}
+            channelService={channelService}
+            slackService={slackService}
+            onChanged={loadChannels}
+          />
+
+          <MappingBackupsDialog open={backupsOpen} onOpenChange={setBackupsOpen} />
+
+          <EditMappingDialog
+            open={editingMapping !== null}
+            onOpenChange={(isOpen) => !isOpen && setEditingMapping(null)}
+            mapping={editingMapping}
+            mappingService={mappingService}
+            onSaved={reloadMappings}
+          />
+
+          <AlertDialog open={removingMapping !== null} onOpenChange={(isOpen) => !isOpen && setRemovingMapping(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Remove {removingMapping?.realName}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Their record and custom fields are removed from the mappings. A backup is kept, and they are added
+                  again if they rejoin a tracked channel.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={removing}>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={(e) => {
+                    e.preventDefault();
+                    confirmRemoveMapping();
+                  }}
+                  disabled={removing}
+                >
+                  {removing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Remove
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+
           {users.length > 0 && (
             <div className="mt-8">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-medium">User Mappings</h3>
                 <div className="flex items-center gap-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => setHistoryOpen(true)}
+                    className="flex items-center"
+                  >
+                    <History className="mr-2 h-4 w-4" />
+                    History
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setScheduledOpen(true)}
+                    className="flex items-center"
+                  >
+                    <Clock className="mr-2 h-4 w-4" />
+                    Scheduled
+                  </Button>
+                  {hasRole('sender') && (
+                    <Button
+                      onClick={() => {
+                        setBulkRecipients(selectedUsers);
+                        setBulkSendOpen(true);
+                      }}
+                      disabled={selectedUsers.length === 0 || !slackService}
+                      className="flex items-center"
+                    >
+                      <Send className="mr-2 h-4 w-4" />
+                      Send to selected ({selectedUsers.length})
+                    </Button>
+                  )}
                   <div className="flex items-center gap-2">
                     <span className="text-sm">CSV</span>
                     <input 
@@ -208,72 +656,72 @@ const SlackIntegration = () => {
                 </div>
               </div>
               
-              <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'all'|'new')}>
-                <TabsList className="mb-4">
-                  <TabsTrigger value="all">All Users ({users.length})</TabsTrigger>
-                  <TabsTrigger value="new">New Today ({newUsers.length})</TabsTrigger>
-                </TabsList>
+              <Tabs value={activeTab} onValueChange={(value) => {
+                setActiveTab(value as 'all'|'new'|'departed');
+                setSelectedUserIds(new Set());
+              }}>
+                <div className="flex justify-between items-center mb-4">
+                  <TabsList>
+                    <TabsTrigger value="all">All Users ({allUsers.length})</TabsTrigger>
+                    <TabsTrigger value="new">New Today ({newUsers.length})</TabsTrigger>
+                    <TabsTrigger value="departed">Departed ({departedUsers.length})</TabsTrigger>
+                  </TabsList>
+                  <Select
+                    value={messagedFilter}
+                    onValueChange={(value) => {
+                      setMessagedFilter(value as 'any'|'messaged'|'not-messaged');
+                      setSelectedUserIds(new Set());
+                    }}
+                  >
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any message status</SelectItem>
+                      <SelectItem value="messaged">Messaged</SelectItem>
+                      <SelectItem value="not-messaged">Not messaged yet</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
                 
                 <TabsContent value="all">
-                  <div className="border rounded-lg overflow-hidden">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Full Name</TableHead>
-                          <TableHead>Slack Tag</TableHead>
-                          <TableHead>Added On</TableHead>
-                          <TableHead className="w-[100px]"></TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {users.map((user) => (
-                          <TableRow key={user.userId}>
-                            <TableCell>{user.realName}</TableCell>
-                            <TableCell>{user.slackTag}</TableCell>
-                            <TableCell>{user.addedOn || 'N/A'}</TableCell>
-                            <TableCell>
-                              <SendMessageButton 
-                                userId={user.userId} 
-                                slackService={slackService} 
-                              />
-                            </TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                  </div>
+                  {renderUserTable(allUsers)}
                 </TabsContent>
                 
                 <TabsContent value="new">
-                  <div className="border rounded-lg overflow-hidden">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Full Name</TableHead>
-                          <TableHead>Slack Tag</TableHead>
-                          <TableHead>Added On</TableHead>
-                          <TableHead className="w-[100px]"></TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {newUsers.map((user) => (
-                          <TableRow key={user.userId}>
-                            <TableCell>{user.realName}</TableCell>
-                            <TableCell>{user.slackTag}</TableCell>
-                            <TableCell>{user.addedOn || 'N/A'}</TableCell>
-                            <TableCell>
-                              <SendMessageButton 
-                                userId={user.userId} 
-                                slackService={slackService} 
-                              />
-                            </TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                  </div>
+                  {renderUserTable(newUsers)}
+                </TabsContent>
+
+                <TabsContent value="departed">
+                  {renderDepartedTable(departedUsers)}
                 </TabsContent>
               </Tabs>
+
+              <BulkSendDialog
+                open={bulkSendOpen}
+                onOpenChange={setBulkSendOpen}
+                recipients={bulkRecipients}
+                slackService={slackService}
+                onSent={loadHistory}
+              />
+
+              <MessageHistoryDialog
+                open={historyOpen}
+                onOpenChange={setHistoryOpen}
+                history={history}
+                users={users}
+                slackService={slackService}
+                onChanged={loadHistory}
+              />
+
+              <ScheduledMessagesDialog
+                open={scheduledOpen}
+                onOpenChange={setScheduledOpen}
+                history={history}
+                users={users}
+                slackService={slackService}
+                onChanged={loadHistory}
+              />
             </div>
           )}
         </CardContent>
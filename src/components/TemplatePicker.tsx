@@ -0,0 +1,284 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MessageTemplate, TemplateSelection, TemplateService } from '@/services/templateService';
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Copy, FilePlus, MoreHorizontal, Pencil, Save, Star, Trash2 } from 'lucide-react';
+
+interface TemplatePickerProps {
+  message: string;
+  onLoadTemplate: (text: string, selection: TemplateSelection) => void;
+}
+
+type NameDialogMode = 'create' | 'rename' | 'duplicate';
+
+const NAME_DIALOG_TITLES: Record<NameDialogMode, string> = {
+  create: 'Save as new template',
+  rename: 'Rename template',
+  duplicate: 'Duplicate template',
+};
+
+const templateService = new TemplateService();
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ message, onLoadTemplate }) => {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [nameDialog, setNameDialog] = useState<NameDialogMode | null>(null);
+  const [nameInput, setNameInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  // Anyone can load templates; only admins can change them
+  const canManage = useAuth().hasRole('admin');
+
+  const selectedTemplate = templates.find(t => t.id === selectedId) || null;
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadTemplate = useCallback((template: MessageTemplate, version = template.currentVersion) => {
+    const text = template.versions.find(v => v.version === version)?.text ?? template.text;
+    setSelectedId(template.id);
+    setSelectedVersion(version);
+    onLoadTemplate(text, { templateId: template.id, version });
+  }, [onLoadTemplate]);
+
+  // Replace one template in local state after the server returns it
+  const upsertTemplate = (template: MessageTemplate, clearOtherDefaults = false) => {
+    setTemplates(prev => {
+      const others = prev
+        .filter(t => t.id !== template.id)
+        .map(t => clearOtherDefaults ? { ...t, isDefault: false } : t);
+      const index = prev.findIndex(t => t.id === template.id);
+      return index === -1
+        ? [...others, template]
+        : [...others.slice(0, index), template, ...others.slice(index)];
+    });
+  };
+
+  // Loads the templates and the default one into the editor; runs once when
+  // the editor opens, as long as the parent passes a stable onLoadTemplate
+  const loadTemplates = useCallback(async () => {
+    try {
+      const data = await templateService.getTemplates();
+      setTemplates(data);
+      const defaultTemplate = data.find(t => t.isDefault) || data[0];
+      if (defaultTemplate) {
+        loadTemplate(defaultTemplate);
+      }
+    } catch (error) {
+      showError(error, "Failed to load message templates");
+    }
+  }, [loadTemplate, showError]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const openNameDialog = (mode: NameDialogMode) => {
+    setNameInput(
+      mode === 'rename' ? selectedTemplate?.name ?? ''
+        : mode === 'duplicate' ? `${selectedTemplate?.name ?? 'Template'} (copy)`
+        : ''
+    );
+    setNameDialog(mode);
+  };
+
+  const submitNameDialog = async () => {
+    if (!nameInput.trim()) return;
+
+    setIsSaving(true);
+    try {
+      if (nameDialog === 'create') {
+        const template = await templateService.createTemplate(nameInput, message);
+        upsertTemplate(template);
+        loadTemplate(template);
+      } else if (nameDialog === 'rename' && selectedTemplate) {
+        upsertTemplate(await templateService.renameTemplate(selectedTemplate.id, nameInput));
+      } else if (nameDialog === 'duplicate' && selectedTemplate) {
+        const template = await templateService.duplicateTemplate(selectedTemplate.id, nameInput);
+        upsertTemplate(template);
+        loadTemplate(template);
+      }
+      setNameDialog(null);
+    } catch (error) {
+      showError(error, "Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveVersion = async () => {
+    if (!selectedTemplate) return;
+
+    try {
+      const template = await templateService.saveVersion(selectedTemplate.id, message);
+      upsertTemplate(template);
+      setSelectedVersion(template.currentVersion);
+      toast({
+        title: "Template saved",
+        description: `Saved "${template.name}" as version ${template.currentVersion}`,
+      });
+    } catch (error) {
+      showError(error, "Failed to save template");
+    }
+  };
+
+  const setAsDefault = async () => {
+    if (!selectedTemplate) return;
+
+    try {
+      upsertTemplate(await templateService.setDefaultTemplate(selectedTemplate.id), true);
+    } catch (error) {
+      showError(error, "Failed to set default template");
+    }
+  };
+
+  const deleteTemplate = async () => {
+    if (!selectedTemplate) return;
+
+    try {
+      await templateService.deleteTemplate(selectedTemplate.id);
+      // The server promotes another template to default if needed
+      const data = await templateService.getTemplates();
+      setTemplates(data);
+      const next = data.find(t => t.isDefault) || data[0];
+      if (next) {
+        loadTemplate(next);
+      } else {
+        setSelectedId(null);
+        setSelectedVersion(null);
+      }
+    } catch (error) {
+      showError(error, "Failed to delete template");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={selectedId ?? undefined}
+        onValueChange={(id) => {
+          const template = templates.find(t => t.id === id);
+          if (template) loadTemplate(template);
+        }}
+      >
+        <SelectTrigger className="w-[260px]">
+          <SelectValue placeholder={templates.length ? "Choose a template" : "No templates yet"} />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map(template => (
+            <SelectItem key={template.id} value={template.id}>
+              {template.name}{template.isDefault ? ' (default)' : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {selectedTemplate && (
+        <Select
+          value={selectedVersion?.toString()}
+          onValueChange={(value) => loadTemplate(selectedTemplate, Number(value))}
+        >
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {[...selectedTemplate.versions].reverse().map(version => (
+              <SelectItem key={version.version} value={version.version.toString()}>
+                Version {version.version}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {selectedTemplate?.isDefault && <Badge variant="secondary">Default</Badge>}
+
+      {canManage && (
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={saveVersion}
+            disabled={!selectedTemplate || !message.trim()}
+            className="flex items-center"
+          >
+            <Save className="mr-2 h-4 w-4" />
+            Save version
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="h-9 w-9 p-0">
+                <MoreHorizontal className="h-4 w-4" />
+                <span className="sr-only">Template actions</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => openNameDialog('create')} disabled={!message.trim()}>
+                <FilePlus className="mr-2 h-4 w-4" />
+                Save as new template
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => openNameDialog('rename')} disabled={!selectedTemplate}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => openNameDialog('duplicate')} disabled={!selectedTemplate}>
+                <Copy className="mr-2 h-4 w-4" />
+                Duplicate
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={setAsDefault} disabled={!selectedTemplate || selectedTemplate.isDefault}>
+                <Star className="mr-2 h-4 w-4" />
+                Set as default
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={deleteTemplate} disabled={!selectedTemplate} className="text-destructive">
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{nameDialog ? NAME_DIALOG_TITLES[nameDialog] : ''}</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={nameInput}
+            onChange={(e) => setNameInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && submitNameDialog()}
+            placeholder="Template name"
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>Cancel</Button>
+            <Button onClick={submitNameDialog} disabled={isSaving || !nameInput.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TemplatePicker;
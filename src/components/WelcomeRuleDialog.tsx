@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { RegisteredChannel } from '@/services/channelService';
+import { MessageTemplate, TemplateService } from '@/services/templateService';
+import { WelcomeRule, WelcomeRuleInput, WelcomeRuleService } from '@/services/welcomeRuleService';
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from 'lucide-react';
+
+const templateService = new TemplateService();
+
+const DEFAULT_RULE: WelcomeRuleInput = {
+  enabled: false,
+  dryRun: true,
+  templateId: null,
+  delayMinutes: 0,
+  quietHours: null,
+};
+
+interface WelcomeRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  channel: RegisteredChannel | null;
+  rule: WelcomeRule | null;
+  welcomeRuleService: WelcomeRuleService;
+  onSaved: () => void;
+}
+
+const WelcomeRuleDialog: React.FC<WelcomeRuleDialogProps> = ({
+  open,
+  onOpenChange,
+  channel,
+  rule,
+  welcomeRuleService,
+  onSaved
+}) => {
+  const [form, setForm] = useState<WelcomeRuleInput>(DEFAULT_RULE);
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setForm(rule
+      ? {
+        enabled: rule.enabled,
+        dryRun: rule.dryRun,
+        templateId: rule.templateId,
+        delayMinutes: rule.delayMinutes,
+        quietHours: rule.quietHours,
+      }
+      : DEFAULT_RULE);
+    templateService.getTemplates()
+      .then(setTemplates)
+      .catch(error => console.error('Error loading templates:', error));
+  }, [open, rule]);
+
+  const update = (changes: Partial<WelcomeRuleInput>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const save = async () => {
+    if (!channel) return;
+
+    setSaving(true);
+    try {
+      await welcomeRuleService.saveRule(channel.id, form);
+      onSaved();
+      onOpenChange(false);
+      toast({
+        title: "Welcome rule saved",
+        description: form.enabled
+          ? `New members of #${channel.name} will be welcomed${form.dryRun ? ' (dry run: nothing is sent)' : ''}`
+          : `Welcome DMs for #${channel.name} are off`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save welcome rule",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Welcome new members{channel ? ` of #${channel.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            Send a DM to people who join this channel, as soon as a sync or Slack event notices them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="welcome-enabled">Enabled</Label>
+            <Switch
+              id="welcome-enabled"
+              checked={form.enabled}
+              onCheckedChange={(enabled) => update({ enabled })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="welcome-dry-run">Dry run</Label>
+              <p className="text-xs text-muted-foreground">Only log what would have been sent.</p>
+            </div>
+            <Switch
+              id="welcome-dry-run"
+              checked={form.dryRun}
+              onCheckedChange={(dryRun) => update({ dryRun })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={form.templateId ?? ''} onValueChange={(templateId) => update({ templateId })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="welcome-delay">Delay (minutes)</Label>
+            <Input
+              id="welcome-delay"
+              type="number"
+              min={0}
+              value={form.delayMinutes}
+              onChange={(e) => update({ delayMinutes: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="welcome-quiet-hours">Quiet hours</Label>
+                <p className="text-xs text-muted-foreground">Hold welcomes until quiet hours end (server time).</p>
+              </div>
+              <Switch
+                id="welcome-quiet-hours"
+                checked={form.quietHours !== null}
+                onCheckedChange={(checked) => update({ quietHours: checked ? { start: '20:00', end: '08:00' } : null })}
+              />
+            </div>
+            {form.quietHours && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  value={form.quietHours.start}
+                  onChange={(e) => update({ quietHours: { ...form.quietHours, start: e.target.value } })}
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  value={form.quietHours.end}
+                  onChange={(e) => update({ quietHours: { ...form.quietHours, end: e.target.value } })}
+                />
+              </div>
+            )}
+          </div>
+
+          {rule && rule.log.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Recent welcomes</h4>
+              <ScrollArea className="h-[160px] border rounded-lg">
+                <div className="divide-y">
+                  {rule.log.map(entry => (
+                    <div key={`${entry.userId}-${entry.at}`} className="px-3 py-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span>{entry.realName}</span>
+                        <Badge variant={entry.status === 'failed' ? 'destructive' : 'secondary'}>{entry.status}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground" title={entry.text}>
+                        {new Date(entry.at).toLocaleString()}
+                        {entry.postAt && ` · for ${new Date(entry.postAt * 1000).toLocaleString()}`}
+                        {entry.error && ` · ${entry.error}`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={save} disabled={saving || (form.enabled && !form.templateId)}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WelcomeRuleDialog;
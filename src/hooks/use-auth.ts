@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import { AuthUser, Role } from '@/services/authService';
+
+export interface AuthContextValue {
+  user: AuthUser | null;
+  // True until the initial session check has finished
+  loading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  // Whether the signed-in user's role includes `role`; used to hide or disable actions
+  hasRole: (role: Role) => boolean;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,57 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { SyncRun } from '@/services/slackService';
+
+const UPDATES_URL = 'http://localhost:3001/api/updates';
+
+// Queries the server's update stream keeps fresh
+export const MAPPINGS_QUERY_KEY = ['mappings'];
+export const HISTORY_QUERY_KEY = ['history'];
+export const SYNC_RUN_QUERY_KEY = ['sync-run'];
+export const SYNC_RUNS_QUERY_KEY = ['sync-runs'];
+
+/**
+ * Listens to the server's /api/updates stream while mounted and invalidates
+ * the matching queries, so changes made by other operators, background syncs
+ * and Slack events show up without reloading. Sync progress is written
+ * straight into the SYNC_RUN_QUERY_KEY cache entry.
+ */
+export const useLiveUpdates = () => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const events = new EventSource(UPDATES_URL, { withCredentials: true });
+    let reconnecting = false;
+
+    events.addEventListener('mappings', () => {
+      queryClient.invalidateQueries({ queryKey: MAPPINGS_QUERY_KEY });
+    });
+
+    events.addEventListener('history', () => {
+      queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY });
+    });
+
+    events.addEventListener('sync', (event) => {
+      const run = JSON.parse((event as MessageEvent).data) as SyncRun | null;
+      const previous = queryClient.getQueryData<SyncRun | null>(SYNC_RUN_QUERY_KEY);
+      queryClient.setQueryData(SYNC_RUN_QUERY_KEY, run);
+      if (previous?.status === 'running' && run?.status !== 'running') {
+        queryClient.invalidateQueries({ queryKey: SYNC_RUNS_QUERY_KEY });
+      }
+    });
+
+    // EventSource reconnects by itself; refetch whatever changed while it was down
+    events.onerror = () => {
+      reconnecting = true;
+    };
+    events.onopen = () => {
+      if (reconnecting) {
+        reconnecting = false;
+        queryClient.invalidateQueries({ queryKey: MAPPINGS_QUERY_KEY });
+        queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY });
+      }
+    };
+
+    return () => events.close();
+  }, [queryClient]);
+};
@@ -0,0 +1,14 @@
+import { MessageHistoryEntry } from '@/services/slackService';
+
+// Slack delivers scheduled DMs by itself and doesn't tell us, so a scheduled
+// entry whose time has passed is taken as delivered (unless it was cancelled,
+// which changes its status)
+export const isDelivered = (entry: MessageHistoryEntry, now = Date.now()): boolean =>
+  entry.status === 'sent' ||
+  (entry.status === 'scheduled' && entry.postAt !== undefined && entry.postAt * 1000 <= now);
+
+// When the recipient got (or will get) the message, as an ISO timestamp
+export const deliveryTime = (entry: MessageHistoryEntry): string =>
+  entry.status === 'scheduled' && entry.postAt !== undefined
+    ? new Date(entry.postAt * 1000).toISOString()
+    : entry.sentAt;
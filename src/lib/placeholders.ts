@@ -0,0 +1,36 @@
+import { UserMapping } from '@/services/slackService';
+import * as sharedPlaceholders from '@/shared/placeholders';
+
+export const BUILT_IN_PLACEHOLDERS: readonly string[] = sharedPlaceholders.BUILT_IN_PLACEHOLDERS;
+
+export interface RenderedMessage {
+  text: string;
+  missing: string[];
+}
+
+export interface UnresolvedRecipient {
+  user: UserMapping;
+  missing: string[];
+}
+
+export const getPlaceholderValues = (user: UserMapping): Record<string, string | undefined> =>
+  sharedPlaceholders.getPlaceholderValues(user);
+
+export const findPlaceholders = (text: string): string[] => sharedPlaceholders.findPlaceholders(text);
+
+// Rendering itself lives in src/shared, where the server uses it for welcome DMs
+export const renderPlaceholders = (text: string, user: UserMapping): RenderedMessage =>
+  sharedPlaceholders.renderPlaceholders(text, user);
+
+export const findUnresolvedRecipients = (text: string, users: UserMapping[]): UnresolvedRecipient[] =>
+  users
+    .map(user => ({ user, missing: renderPlaceholders(text, user).missing }))
+    .filter(result => result.missing.length > 0);
+
+export const describeUnresolved = (unresolved: UnresolvedRecipient[]): string => {
+  const shown = unresolved.slice(0, 3)
+    .map(({ user, missing }) => `${user.realName || user.userId} (${missing.map(m => `{{${m}}}`).join(', ')})`)
+    .join('; ');
+  const more = unresolved.length > 3 ? ` and ${unresolved.length - 3} more` : '';
+  return `Placeholders can't be resolved for ${shown}${more}.`;
+};
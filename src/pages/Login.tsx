@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Separator } from "@/components/ui/separator";
+import Layout from '@/components/Layout';
+import { AuthMethods, AuthService } from '@/services/authService';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, LogIn, Slack } from 'lucide-react';
+
+const authService = new AuthService();
+
+const Login = () => {
+  const { user, login } = useAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from || '/';
+  // Set by the server when a Slack sign-in is rejected
+  const [searchParams] = useSearchParams();
+  const slackError = searchParams.get('error');
+  // Offer both until the server says otherwise
+  const [methods, setMethods] = useState<AuthMethods>({ slack: true, password: true });
+
+  useEffect(() => {
+    authService.getMethods()
+      .then(setMethods)
+      .catch(error => console.error('Error loading sign-in options:', error));
+  }, []);
+
+  if (user) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await login(username, password);
+      navigate(from, { replace: true });
+    } catch (error) {
+      toast({
+        title: "Sign in failed",
+        description: error instanceof Error ? error.message : "Failed to sign in",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <Card className="w-full max-w-sm mx-auto shadow-md bg-white/50 backdrop-blur-sm animate-fade-in">
+        <CardHeader>
+          <CardTitle className="text-2xl">Sign in</CardTitle>
+          <CardDescription>Sign in to Slack User Mapper to continue.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {slackError && (
+            <Alert variant="destructive">
+              <AlertDescription>{slackError}</AlertDescription>
+            </Alert>
+          )}
+          {methods.slack && (
+            <Button asChild variant="outline" className="w-full">
+              <a href={authService.slackSignInUrl}>
+                <Slack className="mr-2 h-4 w-4" />
+                Sign in with Slack
+              </a>
+            </Button>
+          )}
+          {methods.slack && methods.password && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Separator className="flex-1" />
+              or
+              <Separator className="flex-1" />
+            </div>
+          )}
+          {methods.password && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  autoComplete="username"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading || !username || !password}>
+                {isLoading
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <LogIn className="mr-2 h-4 w-4" />}
+                Sign in
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </Layout>
+  );
+};
+
+export default Login;
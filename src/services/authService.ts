@@ -0,0 +1,104 @@
+// Ordered from least to most privileged, matching the server
+export const ROLES = ['viewer', 'mapper', 'sender', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export interface AuthUser {
+  // Local username, or the Slack user ID for operators who signed in with Slack
+  username: string;
+  provider: 'password' | 'slack';
+  role: Role;
+  name?: string;
+  image?: string;
+  createdAt?: string;
+}
+
+export interface AuthMethods {
+  slack: boolean;
+  password: boolean;
+}
+
+export class AuthService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = 'http://localhost:3001/api/auth';
+  }
+
+  // Full-page redirect target that starts the Slack OAuth flow
+  get slackSignInUrl(): string {
+    return `${this.apiUrl}/slack`;
+  }
+
+  async getMethods(): Promise<AuthMethods> {
+    try {
+      const response = await fetch(`${this.apiUrl}/methods`, { cache: 'no-store', credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`Failed to load sign-in options: ${response.statusText}`);
+      }
+      return await response.json();
+    } catch (error) {
+      throw this.toConnectionError(error);
+    }
+  }
+
+  // Resolves to null when there is no valid session
+  async getCurrentUser(): Promise<AuthUser | null> {
+    try {
+      const response = await fetch(`${this.apiUrl}/me`, { cache: 'no-store', credentials: 'include' });
+      if (response.status === 401) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to check session: ${response.statusText}`);
+      }
+      const data = await response.json() as { user: AuthUser };
+      return data.user;
+    } catch (error) {
+      throw this.toConnectionError(error);
+    }
+  }
+
+  async login(username: string, password: string): Promise<AuthUser> {
+    try {
+      const response = await fetch(`${this.apiUrl}/login`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, password })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || `Failed to sign in: ${response.statusText}`);
+      }
+
+      const data = await response.json() as { user: AuthUser };
+      return data.user;
+    } catch (error) {
+      throw this.toConnectionError(error);
+    }
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await fetch(`${this.apiUrl}/logout`, { method: 'POST', credentials: 'include' });
+    } catch (error) {
+      throw this.toConnectionError(error);
+    }
+  }
+
+  private toConnectionError(error: unknown): unknown {
+    console.error('Error calling auth API:', error);
+
+    if (error instanceof TypeError && error.message === 'Failed to fetch') {
+      return new Error(
+        'Failed to connect to proxy server. Make sure your server is running on http://localhost:3001. ' +
+        'Run "node server.js" in a separate terminal window before using this app.'
+      );
+    }
+
+    return error;
+  }
+}
@@ -0,0 +1,59 @@
+export interface RegisteredChannel {
+  id: string;
+  name: string;
+  addedAt: string;
+}
+
+export class ChannelService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = 'http://localhost:3001/api/channels';
+  }
+
+  async getChannels(): Promise<RegisteredChannel[]> {
+    return this.request('');
+  }
+
+  async addChannel(id: string, name: string): Promise<RegisteredChannel> {
+    return this.request('', {
+      method: 'POST',
+      body: JSON.stringify({ id, name })
+    });
+  }
+
+  async removeChannel(id: string): Promise<void> {
+    await this.request(`/${id}`, { method: 'DELETE' });
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    try {
+      const response = await fetch(`${this.apiUrl}${path}`, {
+        credentials: 'include',
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        cache: 'no-store',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || `Channel request failed: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error calling channel API:', error);
+
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw new Error(
+          'Failed to connect to proxy server. Make sure your server is running on http://localhost:3001. ' +
+          'Run "node server.js" in a separate terminal window before using this app.'
+        );
+      }
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+export interface MappingBackup {
+  id: string;
+  createdAt: string;
+  // What was about to change when the snapshot was taken
+  reason: string;
+  count: number;
+}
+
+export class MappingBackupService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = 'http://localhost:3001/api/mappings/backups';
+  }
+
+  // Newest first
+  async getBackups(): Promise<MappingBackup[]> {
+    return this.request('');
+  }
+
+  async restoreBackup(id: string): Promise<{ success: boolean; count: number }> {
+    return this.request(`/${id}/restore`, { method: 'POST' });
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    try {
+      const response = await fetch(`${this.apiUrl}${path}`, {
+        credentials: 'include',
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        cache: 'no-store',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || `Mapping backup request failed: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error calling mapping backup API:', error);
+
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw new Error(
+          'Failed to connect to proxy server. Make sure your server is running on http://localhost:3001. ' +
+          'Run "node server.js" in a separate terminal window before using this app.'
+        );
+      }
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { UserMapping } from './slackService';
+import { mappingPatchSchema, parseRequest } from '@/shared/schemas';
+
+// Fields of a mapping that can be changed one at a time
+export type MappingChanges = Partial<Omit<UserMapping, 'userId' | 'version'>>;
+
+// The mapping changed on the server since `version` was read
+export class MappingConflictError extends Error {
+  // The mapping as it is now, or null if it was deleted
+  current: UserMapping | null;
+
+  constructor(message: string, current: UserMapping | null) {
+    super(message);
+    this.name = 'MappingConflictError';
+    this.current = current;
+  }
+}
+
+export class MappingService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = 'http://localhost:3001/api/mappings';
+  }
+
+  async getMappings(): Promise<UserMapping[]> {
+    const data = await this.request<UserMapping[]>('');
+    return Array.isArray(data) ? data : [];
+  }
+
+  async getMapping(userId: string): Promise<UserMapping> {
+    return this.request(`/${userId}`);
+  }
+
+  // Without a version the change is applied whatever the current state
+  async updateMapping(userId: string, changes: MappingChanges, version?: string): Promise<UserMapping> {
+    return this.request(`/${userId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(parseRequest(mappingPatchSchema, changes))
+    }, version);
+  }
+
+  async deleteMapping(userId: string, version?: string): Promise<void> {
+    await this.request(`/${userId}`, { method: 'DELETE' }, version);
+  }
+
+  private async request<T>(path: string, init?: RequestInit, version?: string): Promise<T> {
+    try {
+      const response = await fetch(`${this.apiUrl}${path}`, {
+        credentials: 'include',
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(version ? { 'If-Match': `"${version}"` } : {}),
+        },
+        cache: 'no-store',
+      });
+
+      if (response.status === 412) {
+        const errorData = await response.json().catch(() => null);
+        throw new MappingConflictError(
+          errorData?.error || 'Mapping was changed by someone else',
+          errorData?.current ?? null
+        );
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || `Mapping request failed: ${response.statusText}`);
+      }
+
+      return response.status === 204 ? undefined : await response.json();
+    } catch (error) {
+      console.error('Error calling mapping API:', error);
+
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw new Error(
+          'Failed to connect to proxy server. Make sure your server is running on http://localhost:3001. ' +
+          'Run "node server.js" in a separate terminal window before using this app.'
+        );
+      }
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  parseRequest,
+  templateCreateSchema,
+  templateDuplicateSchema,
+  templateUpdateSchema
+} from '@/shared/schemas';
+
+export interface TemplateVersion {
+  version: number;
+  text: string;
+  createdAt: string;
+}
+
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  currentVersion: number;
+  createdAt: string;
+  updatedAt: string;
+  versions: TemplateVersion[];
+  text: string;
+}
+
+export interface TemplateSelection {
+  templateId: string;
+  version: number;
+}
+
+export class TemplateService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = 'http://localhost:3001/api/templates';
+  }
+
+  async getTemplates(): Promise<MessageTemplate[]> {
+    return this.request('');
+  }
+
+  async createTemplate(name: string, text: string): Promise<MessageTemplate> {
+    return this.request('', {
+      method: 'POST',
+      body: JSON.stringify(parseRequest(templateCreateSchema, { name, text }))
+    });
+  }
+
+  async renameTemplate(id: string, name: string): Promise<MessageTemplate> {
+    return this.request(`/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(parseRequest(templateUpdateSchema, { name }))
+    });
+  }
+
+  // Saving text that differs from the current version creates a new version
+  async saveVersion(id: string, text: string): Promise<MessageTemplate> {
+    return this.request(`/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(parseRequest(templateUpdateSchema, { text }))
+    });
+  }
+
+  async restoreVersion(id: string, version: number): Promise<MessageTemplate> {
+    return this.request(`/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(parseRequest(templateUpdateSchema, { version }))
+    });
+  }
+
+  async duplicateTemplate(id: string, name?: string): Promise<MessageTemplate> {
+    return this.request(`/${id}/duplicate`, {
+      method: 'POST',
+      body: JSON.stringify(parseRequest(templateDuplicateSchema, { name }))
+    });
+  }
+
+  async setDefaultTemplate(id: string): Promise<MessageTemplate> {
+    return this.request(`/${id}/default`, { method: 'POST' });
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await this.request(`/${id}`, { method: 'DELETE' });
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    try {
+      const response = await fetch(`${this.apiUrl}${path}`, {
+        credentials: 'include',
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        cache: 'no-store',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || `Template request failed: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error calling template API:', error);
+
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw new Error(
+          'Failed to connect to proxy server. Make sure your server is running on http://localhost:3001. ' +
+          'Run "node server.js" in a separate terminal window before using this app.'
+        );
+      }
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { parseRequest, welcomeRuleSchema } from '@/shared/schemas';
+
+export interface QuietHours {
+  // Server local time, HH:MM; may wrap midnight (22:00-08:00)
+  start: string;
+  end: string;
+}
+
+export interface WelcomeLogEntry {
+  userId: string;
+  realName: string;
+  text: string;
+  dryRun: boolean;
+  status: 'sent' | 'scheduled' | 'dry-run' | 'failed';
+  // Unix seconds, when the welcome was (or would have been) scheduled
+  postAt?: number;
+  error?: string;
+  at: string;
+}
+
+export interface WelcomeRuleInput {
+  enabled: boolean;
+  // Log what would be sent without sending anything
+  dryRun: boolean;
+  templateId: string | null;
+  delayMinutes: number;
+  quietHours: QuietHours | null;
+}
+
+export interface WelcomeRule extends WelcomeRuleInput {
+  channelId: string;
+  updatedAt: string;
+  updatedBy?: string;
+  // Newest first
+  log: WelcomeLogEntry[];
+}
+
+export class WelcomeRuleService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = 'http://localhost:3001/api/welcome-rules';
+  }
+
+  async getRules(): Promise<WelcomeRule[]> {
+    return this.request('');
+  }
+
+  async saveRule(channelId: string, rule: WelcomeRuleInput): Promise<WelcomeRule> {
+    return this.request(`/${channelId}`, {
+      method: 'PUT',
+      body: JSON.stringify(parseRequest(welcomeRuleSchema, rule))
+    });
+  }
+
+  async removeRule(channelId: string): Promise<void> {
+    await this.request(`/${channelId}`, { method: 'DELETE' });
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    try {
+      const response = await fetch(`${this.apiUrl}${path}`, {
+        credentials: 'include',
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        cache: 'no-store',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || `Welcome rule request failed: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error calling welcome rule API:', error);
+
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw new Error(
+          'Failed to connect to proxy server. Make sure your server is running on http://localhost:3001. ' +
+          'Run "node server.js" in a separate terminal window before using this app.'
+        );
+      }
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+// Placeholder rendering shared by the UI (previews, sends) and the server
+// (welcome DMs), so both agree on what a message will say
+
+// Matches {{firstName}}, {{ realName }}, {{customFieldName}} etc.
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export const BUILT_IN_PLACEHOLDERS = ['firstName', 'realName', 'slackTag', 'addedOn'];
+
+// Built-in fields win over custom fields of the same name
+export const getPlaceholderValues = (user) => ({
+  ...user.customFields,
+  firstName: user.realName?.trim().split(/\s+/)[0],
+  realName: user.realName,
+  slackTag: user.slackTag,
+  addedOn: user.addedOn,
+});
+
+export const findPlaceholders = (text) =>
+  [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+
+/**
+ * Substitutes every placeholder with the recipient's value. Placeholders
+ * without a non-empty value are left in place and reported in `missing`.
+ */
+export const renderPlaceholders = (text, user) => {
+  const values = getPlaceholderValues(user);
+  const missing = new Set();
+
+  const rendered = text.replace(PLACEHOLDER_PATTERN, (placeholder, name) => {
+    // Own fields only: {{constructor}} is missing, not Object's constructor
+    const value = Object.hasOwn(values, name) ? values[name] : undefined;
+    if (value === undefined || value === null || value === '') {
+      missing.add(name);
+      return placeholder;
+    }
+    return value;
+  });
+
+  return { text: rendered, missing: [...missing] };
+};
@@ -0,0 +1,186 @@
+import { z } from 'zod';
+
+// Request schemas shared by the server routes (which reject anything that
+// doesn't match with a 400 listing the bad fields) and the client services
+// (which check requests before sending them). Plain JavaScript so server.js
+// can import it without a build step.
+
+const text = () => z.string({ required_error: 'Required', invalid_type_error: 'Must be text' });
+const nonEmpty = () => text().refine(value => value.trim().length > 0, 'Must not be empty');
+
+const slackUserId = text().regex(/^[UW][A-Z0-9]+$/, 'Must be a Slack user ID, e.g. U0123ABCD');
+const channelId = nonEmpty();
+const date = text().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date (YYYY-MM-DD)');
+const time = text().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Must be a time (HH:MM)');
+const boolean = () => z.boolean({ invalid_type_error: 'Must be true or false' });
+
+// Query string values arrive as text
+const wholeNumberText = text().regex(/^\d+$/, 'Must be a whole number').transform(Number);
+const isoDate = text().refine(
+  value => /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value)),
+  'Must be an ISO date, e.g. 2024-01-31 or 2024-01-31T09:00:00Z'
+);
+
+// Slack's limit for the text of one message
+const messageText = nonEmpty().refine(value => value.length <= 40000, 'Must be at most 40,000 characters');
+
+// Unix seconds, later than now
+const postAt = z.number({ required_error: 'Required', invalid_type_error: 'Must be a Unix timestamp in seconds' })
+  .int('Must be a Unix timestamp in seconds')
+  .refine(value => value > Date.now() / 1000, 'Must be in the future');
+
+export const mappingStatusSchema = z.enum(['active', 'left', 'deactivated']);
+
+export const userMappingSchema = z.object({
+  userId: slackUserId,
+  realName: nonEmpty(),
+  slackTag: nonEmpty(),
+  addedOn: date.optional(),
+  customFields: z.record(text()).optional(),
+  channels: z.array(channelId).optional(),
+  status: mappingStatusSchema.optional(),
+  leftOn: date.optional(),
+  // Only in listings; never stored
+  version: text().optional()
+});
+
+const storedMappingSchema = userMappingSchema.omit({ version: true });
+
+// POST /api/mappings: one channel's members, or a bare array of every member
+// (the old single-channel format)
+export const saveMappingsSchema = z.preprocess(
+  body => Array.isArray(body) ? { mappings: body } : body,
+  z.object({
+    channelId: channelId.optional(),
+    mappings: z.array(storedMappingSchema, { required_error: 'Required' })
+  })
+);
+
+// PUT /api/mappings/:userId; the user ID comes from the URL
+export const mappingFieldsSchema = storedMappingSchema.omit({ userId: true });
+
+// PATCH /api/mappings/:userId; customFields, if given, replaces the whole set
+export const mappingPatchSchema = mappingFieldsSchema.partial();
+
+export const templateSelectionSchema = z.object({
+  templateId: nonEmpty(),
+  version: z.number().int().positive()
+});
+
+// `sourceText` is the text before placeholders were filled in, if different
+export const sendDmSchema = z.object({
+  userId: slackUserId,
+  messageText,
+  sourceText: text().optional(),
+  template: templateSelectionSchema.optional()
+});
+
+export const scheduleDmSchema = sendDmSchema.extend({ postAt });
+
+// Either per-recipient `messages` or one `messageText` for all `userIds`
+export const dmJobSchema = z.object({
+  messages: z.array(z.object({ userId: slackUserId, messageText })).min(1, 'Must not be empty').optional(),
+  userIds: z.array(slackUserId).min(1, 'Must not be empty').optional(),
+  messageText: messageText.optional(),
+  template: templateSelectionSchema.optional(),
+  postAt: postAt.optional()
+}).refine(
+  body => body.messages || (body.userIds && body.messageText),
+  { message: 'Provide messages [{ userId, messageText }] or userIds with messageText', path: ['messages'] }
+);
+
+export const messageStatusSchema = z.enum(['sent', 'scheduled', 'failed', 'deleted', 'cancelled']);
+
+// GET /api/history
+export const historyQuerySchema = z.object({
+  userId: slackUserId.optional(),
+  status: messageStatusSchema.optional()
+});
+
+export const cancelScheduledMessageSchema = z.object({ channel: channelId });
+
+export const chatUpdateSchema = z.object({ historyId: nonEmpty(), text: messageText, sourceText: text().optional() });
+
+export const chatDeleteSchema = z.object({ historyId: nonEmpty() });
+
+export const templateCreateSchema = z.object({
+  name: nonEmpty(),
+  text: nonEmpty(),
+  isDefault: z.boolean().optional()
+});
+
+// Rename, save a new version (text) or restore an earlier one (version)
+export const templateUpdateSchema = z.object({
+  name: nonEmpty().optional(),
+  text: nonEmpty().optional(),
+  version: z.number().int().positive().optional()
+});
+
+export const templateDuplicateSchema = z.object({ name: nonEmpty().optional() });
+
+export const loginSchema = z.object({ username: nonEmpty(), password: nonEmpty() });
+
+export const channelSchema = z.object({ id: channelId, name: text().optional() });
+
+export const syncRequestSchema = z.object({ channelIds: z.array(channelId).optional() });
+
+// GET /api/sync/runs
+export const syncRunsQuerySchema = z.object({ since: isoDate.optional() });
+
+// PUT /api/welcome-rules/:channelId; quiet hours are server local time and
+// may wrap midnight (22:00-08:00)
+export const welcomeRuleSchema = z.object({
+  enabled: boolean().optional(),
+  dryRun: boolean().optional(),
+  templateId: nonEmpty().nullable().optional(),
+  delayMinutes: z.number({ invalid_type_error: 'Must be a number of minutes' })
+    .int('Must be a whole number of minutes')
+    .nonnegative('Must not be negative')
+    .optional(),
+  quietHours: z.object({ start: time, end: time }, { invalid_type_error: 'Must be { start, end } or null' })
+    .refine(({ start, end }) => start !== end, { message: 'Must end at a different time than it starts', path: ['end'] })
+    .nullable()
+    .optional()
+}).refine(
+  rule => !rule.enabled || rule.templateId,
+  { message: 'Choose a template to welcome new members with', path: ['templateId'] }
+);
+
+export const conversationsMembersSchema = z.object({
+  channel: channelId,
+  limit: z.number().int().positive().max(1000).optional(),
+  cursor: text().optional()
+});
+
+// GET /api/slack/users.list
+export const usersListQuerySchema = z.object({
+  limit: wholeNumberText.pipe(z.number().positive('Must be at least 1').max(1000, 'Must be at most 1000')).optional(),
+  cursor: text().optional()
+});
+
+// GET /api/slack/users.info
+export const usersInfoQuerySchema = z.object({ user: slackUserId });
+
+// [{ path: 'mappings.0.userId', message: 'Required' }] for a failed parse
+export const fieldErrors = (error) =>
+  error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+
+export const describeFieldErrors = (fields) =>
+  `Invalid request: ${fields.map(f => f.path ? `${f.path}: ${f.message}` : f.message).join('; ')}`;
+
+export class RequestValidationError extends Error {
+  constructor(fields) {
+    super(describeFieldErrors(fields));
+    this.name = 'RequestValidationError';
+    this.fields = fields;
+  }
+}
+
+// The parsed request, or a RequestValidationError listing what is wrong
+export const parseRequest = (schema, data) => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new RequestValidationError(fieldErrors(result.error));
+  }
+  return result.data;
+};